@@ -1,5 +1,20 @@
 import { Interpolator, Players } from "rune-sdk";
-import { Controls, GameEventType, GameState, GameUpdate, gameOver, moveSpeed, platformWidth, roundTime, rowHeight } from "./logic";
+import { Controls, DeathCause, GameEvent, GameEventType, GameState, GameUpdate, Jumper, PowerUpType, RoomSettings, defaultJumpPower, gameOver, moveSpeed, randomTheme } from "./logic";
+import { platformWidth, rowHeight } from "./level";
+import { difficultyProfiles, nextDifficulty } from "./difficulty";
+import { powerUpTypes } from "./powerups";
+import { gameModes, livingJumpers, nextGameMode, nextRoundLength, raceFinishHeight } from "./modes";
+import { teamHeight, teams } from "./teams";
+import { LifetimeStats, characterUnlocked, characters, levelForXp, xpForLevel } from "./progression";
+import { achievements } from "./achievements";
+import { Replay } from "./replay";
+import { ReplayPlayer } from "./ReplayPlayer";
+import { GhostTrail, ghostInterval, ghostPosition, maxGhostSamples, packGhost, unpackGhost } from "./ghost";
+import { InputManager, TOUCH_LAYOUTS } from "./Input";
+import { steeringAxis } from "./steering";
+import { horizontalOffset, wrapX } from "./wrap";
+import { PARTICLE_EFFECTS, ParticleSystem } from "./Particles";
+import { Theme, loadThemes, resolveTheme } from "./Themes";
 import { graphics, sound } from "toglib";
 
 const TENTH_OF_A_SECOND_IN_MS = 100;
@@ -30,15 +45,6 @@ async function resolveAllAssetImports() {
     await Promise.all(promises);
 }
 
-// A background in the game has three layers that are displayed
-// over each other and scrolled at different rates to give the 
-// parallax 
-interface BackgroundSprite {
-    layer1: graphics.GameImage;
-    layer2: graphics.GameImage;
-    layer3: graphics.GameImage;
-}
-
 // Any one of our jumper characters has 3 states and an image
 // for each: 
 // idle (on the way down)
@@ -48,12 +54,91 @@ interface JumperSprite {
     idle: graphics.GameImage;
     jump: graphics.GameImage;
     die: graphics.GameImage;
+    // the colour the images are tinted for unlockable characters
+    tint?: string;
 }
 
 // An enemy sprite in this game has a series of frames of animation - 
 // for a flapping bird or bat
 type EnemySprite = graphics.GameImage[];
 
+// A room setting shown as a row on the character select screen, tapping
+// the row changes the setting
+interface LobbyOption {
+    // the text shown on the row
+    label: string;
+    // the colour of the text
+    color: string;
+    // the change to the settings applied when the row is tapped
+    next: Partial<RoomSettings>;
+}
+
+// A short lived bit of text that pops up in the game world, e.g.
+// when players bump into each other
+interface Popup {
+    // the x position in game coordinates
+    x: number;
+    // the y position in game coordinates
+    y: number;
+    // the text to show
+    text: string;
+    // the number of frames left before it disappears
+    life: number;
+}
+
+// A message shown across the top of the screen for a few seconds, e.g.
+// when an achievement is unlocked
+interface Toast {
+    // the heading of the message
+    title: string;
+    // the text under the heading
+    text: string;
+    // the number of frames left before it disappears
+    life: number;
+}
+
+// How much a jumper's sprite is squashed when they land, as a fraction of its size
+const SQUASH_AMOUNT = 0.3;
+// The fraction of the squash kept each rendered frame as the sprite springs back
+const SQUASH_DECAY = 0.6;
+// How much a jumper's sprite is stretched when rising at full jump speed
+const MAX_STRETCH = 0.15;
+// How far in pixels the screen shakes when the local player dies, and
+// when someone else does
+const DEATH_SHAKE = 12;
+const OTHER_DEATH_SHAKE = 4;
+// The fraction of the screen shake kept each rendered frame
+const SHAKE_DECAY = 0.8;
+// The height of each row in the live leaderboard
+const LEADERBOARD_ROW_HEIGHT = 22;
+// How quickly rows in the live leaderboard slide to their new
+// position when ranks change, as a fraction of the distance each frame
+const LEADERBOARD_SLIDE = 0.2;
+// The number of frames a toast is shown for
+const TOAST_LIFE = 90;
+// The height of each achievement in the gallery
+const ACHIEVEMENT_ROW_HEIGHT = 40;
+// The number of characters in each row on the character select screen
+const CHARACTER_COLUMNS = 4;
+// The height of each row of room settings on the character select screen
+const LOBBY_OPTION_HEIGHT = 35;
+// The number of room settings shown side by side on each row
+const LOBBY_OPTION_COLUMNS = 2;
+// The height of each row in the results table at the end of a round
+const RESULTS_ROW_HEIGHT = 20;
+// The columns of the results table as [heading, fraction of screen width]
+const RESULTS_COLUMNS: [string, number][] = [["Height", 0.45], ["Bounce", 0.57], ["Spring", 0.68], ["Broke", 0.78], ["Time", 0.87], ["Fate", 0.96]];
+// How each cause of death is described in the results
+const DEATH_CAUSE_LABELS: Record<DeathCause, string> = {
+    spike: "Spiked",
+    enemy: "Caught",
+    fall: "Fell",
+};
+// The height of the bar of controls shown when watching a replay
+const REPLAY_BAR_HEIGHT = 50;
+// The number of ticks the arrow keys skip when watching a replay (5 seconds)
+const REPLAY_SKIP_TICKS = 100;
+
 // Main class that receives input from the user and renders the game
 // along with connecting to the Rune logic layer
 export class BoingBoing implements graphics.Game {
@@ -62,12 +147,12 @@ export class BoingBoing implements graphics.Game {
     // the platforms
     jumperHeights: number[] = [0.85, 0.87, 0.87, 0.9, 0.92, 0.92, 0.8, 0.87, 0.8];
 
-    // The different themes backgrounds we have - keyed on a theme index
-    backgrounds: BackgroundSprite[] = [];
-    // The different themes platforms - keyed on a theme index
-    platforms: graphics.GameImage[] = [];
-    // The different themes platform that fall/are broken - keyed on a theme index
-    platformsBroken: graphics.GameImage[] = [];
+    // The themes discovered from the manifests in the assets, each with
+    // its own backgrounds, platforms and maybe enemies and music
+    themes: Theme[] = [];
+    // The music playing for the current theme and the URL of its track
+    music: HTMLAudioElement | null = null;
+    musicTrack: string | null = null;
     // The different character sprites we allow the player to choose
     jumpers: JumperSprite[] = [];
     // The background box of the selected character on the character select
@@ -104,13 +189,22 @@ export class BoingBoing implements graphics.Game {
     sfxUrgh!: sound.Sound;
     // sound.Sound effect for each jump 
     sfxJump!: sound.Sound;
+    // sound.Sound effects for picking up each type of power up
+    sfxPowerUps: Record<string, sound.Sound> = {};
 
     // True if all the assets have been loaded - or rather
     // asked to load and a holder created
     assetsLoaded = false;
 
-    // The current state of the game logic received from Rune
+    // The current state of the game being rendered, either from Rune or
+    // from a replay being watched
     game?: GameState;
+    // The latest state of the game logic received from Rune
+    liveGame?: GameState;
+    // The recording of the last round that finished, ready to watch or export
+    lastReplay?: Replay;
+    // The player for the replay being watched, if any
+    replayPlayer?: ReplayPlayer;
     // The players that are in the Rune room 
     players?: Players;
     // The ID of the player that is controlling this client
@@ -118,6 +212,24 @@ export class BoingBoing implements graphics.Game {
     // The character type selected - randomize it to start
     // with so we get a spread of different characters
     selectedType = Math.floor(Math.random() * 9);
+    // The local player's record across every room they've played in
+    stats?: LifetimeStats;
+    // The IDs of the achievements the local player has unlocked
+    unlockedAchievements: string[] = [];
+    // True if the gallery of achievements is being shown in the lobby
+    showAchievements = false;
+    // True if the controls menu is being shown in the lobby
+    showControls = false;
+    // The position of each player's row in the live leaderboard keyed on
+    // player ID, rows slide between ranks rather than jumping
+    leaderboardRows: Record<string, number> = {};
+    // The ID of the jumper the camera follows while spectating
+    spectateTarget?: string;
+    // The messages waiting to be shown across the top of the screen, the
+    // first is the one being shown
+    toasts: Toast[] = [];
+    // The team selected when team mode is on
+    selectedTeam = 0;
     // A ticker for animation, it just counts up and 
     // some oscillating animations use it 
     anim = 0;
@@ -128,16 +240,20 @@ export class BoingBoing implements graphics.Game {
     // The current state of this client's controls 
     controls: Controls = {
         left: false,
-        right: false
+        right: false,
+        axis: 0
     };
 
     // The last state of the controls sent to the game logic
     sentControls: Controls = {
         left: false,
-        right: false
+        right: false,
+        axis: 0
     };
     // The time in MS that the last controls were sent
     lastControlsSent = 0;
+    // The keyboard, touch, gamepad and tilt input combined into our controls
+    input = new InputManager();
 
     // images loaded for player avatars - these are done dynamically
     // since they won't be packed with the game
@@ -149,6 +265,26 @@ export class BoingBoing implements graphics.Game {
     // can sometimes hit platforms very close together we don't want the 
     // sound.Sound effect being spammed - it hurts your ears!
     lastJumpSfx = 0;
+    // The tick of the logic update whose events have been handled. The game
+    // state is passed to us again after every action but the events in it
+    // are only cleared by the next update so they mustn't be handled twice
+    lastEventsTick = -1;
+    // the popups currently being shown in the game world
+    popups: Popup[] = [];
+    // the dust, sparkles and debris thrown out by things happening in the game
+    particles = new ParticleSystem();
+    // how squashed each jumper's sprite is from landing keyed on player ID,
+    // 1 for just landed down to 0 once they've sprung back
+    squash: Record<string, number> = {};
+    // how far in pixels the screen is currently shaking
+    shake = 0;
+    // the local player's best round from their persisted data
+    ghost?: GhostTrail;
+    // the positions of the best round unpacked ready to render
+    ghostPoints: number[][] = [];
+    // the local player's positions sampled during the current round, saved
+    // as their ghost if it turns out to be their best
+    ghostRecording: number[][] = [];
     // the loading message
     loadingMessage = "Compressing Springs...";
 
@@ -162,6 +298,8 @@ export class BoingBoing implements graphics.Game {
     font30black!: graphics.GameFont;
     font16black!: graphics.GameFont;
     font80white!: graphics.GameFont;
+    // fonts in each team's colour for name tags, indexed by team
+    font16teams: graphics.GameFont[] = [];
 
     constructor() {
         graphics.init(graphics.RendererType.WEBGL);
@@ -177,6 +315,7 @@ export class BoingBoing implements graphics.Game {
             this.font16black = graphics.generateFont(16, "black");
             this.font30black = graphics.generateFont(30, "black");
             this.font80white = graphics.generateFont(80, "white", "123456");
+            this.font16teams = teams.map(team => graphics.generateFont(16, team.color));
 
             // loading static individual images 
             this.box = graphics.loadImage(ASSETS["./assets/Ui/Box04.png"]);
@@ -200,20 +339,17 @@ export class BoingBoing implements graphics.Game {
                     jump: graphics.loadImage(ASSETS["./assets/Characters/0" + id + "/Jump.png"]),
                 }
             }
-
-            // load up the platforms and backdrops based on the theme numbers
-            const themeIds = ["1", "2", "3", "5", "6"];
-            for (const id of themeIds) {
-                this.backgrounds[this.backgrounds.length] = {
-                    layer1: graphics.loadImage(ASSETS["./assets/Background/0" + id + "/Layer1.png"]),
-                    layer2: graphics.loadImage(ASSETS["./assets/Background/0" + id + "/Layer2.png"]),
-                    layer3: graphics.loadImage(ASSETS["./assets/Background/0" + id + "/Layer3.png"]),
-                };
-
-                this.platforms[this.platforms.length] = graphics.loadImage(ASSETS["./assets/OtherAssets/Platformer" + id + ".png"]);
-                this.platformsBroken[this.platformsBroken.length] = graphics.loadImage(ASSETS["./assets/OtherAssets/Platformer" + id + "-broken.png"]);
+            // the characters that are unlocked by levelling up use the
+            // art of the originals in a different colour
+            for (const character of characters.slice(jumperIds.length)) {
+                this.jumpers.push({ ...this.jumpers[character.base], tint: character.tint });
+                this.jumperHeights.push(this.jumperHeights[character.base]);
             }
 
+            // load up the platforms and backdrops for every theme that
+            // has a manifest in the assets
+            this.themes = loadThemes(ASSETS);
+
             // load the enemy sprites 
             this.enemySprites["bat"] = [];
             this.enemySprites["bird"] = [];
@@ -229,6 +365,12 @@ export class BoingBoing implements graphics.Game {
             this.sfxFanfare = sound.loadSound(ASSETS["./assets/win.mp3"], false);
             this.sfxJump = sound.loadSound(ASSETS["./assets/jump.mp3"], false);
 
+            // the jetpack takes off with the spring effect, the shield
+            // and magnet have their own
+            this.sfxPowerUps["jetpack"] = this.sfxBoing;
+            this.sfxPowerUps["shield"] = sound.loadSound(ASSETS["./assets/shield.wav"], false);
+            this.sfxPowerUps["magnet"] = sound.loadSound(ASSETS["./assets/magnet.wav"], false);
+
         })
 
     }
@@ -255,17 +397,36 @@ export class BoingBoing implements graphics.Game {
 
     // notification of a new game state from the Rune SDK
     gameUpdate(update: GameUpdate): void {
-        this.game = update.game;
+        this.liveGame = update.game;
         this.players = update.players;
         this.localPlayerId = update.yourPlayerId;
 
+        // while watching a replay the live game carries on in the background
+        // but we don't render it or respond to what happens in it
+        if (this.replayPlayer) {
+            return;
+        }
+        this.game = update.game;
+
+        // keep the local player's lifetime stats and the ghost of
+        // their best round up to date
+        this.stats = this.localPlayerId ? update.game.persisted[this.localPlayerId]?.stats : undefined;
+        this.unlockedAchievements = this.localPlayerId ? update.game.persisted[this.localPlayerId]?.achievements ?? [] : [];
+        const ghost = this.localPlayerId ? update.game.persisted[this.localPlayerId]?.ghost : undefined;
+        if (ghost?.samples !== this.ghost?.samples) {
+            this.ghost = ghost;
+            this.ghostPoints = ghost ? unpackGhost(ghost) : [];
+        }
+
         // if we've got a future game to interpolate for then 
         // update our latency based interpolators (that Rune handily
         // gives us) so that our remote players will move smoothly
         // while we wait for network updates
-        if (update.futureGame && !gameOver(this.game)) {
+        if (update.futureGame && !gameOver(this.game, this.gameTime())) {
+            const wrap = this.game.settings.wrap;
             for (const jumper of this.game.jumpers) {
-                if (!this.interpolators[jumper.id]) {
+                const interpolator = this.interpolators[jumper.id];
+                if (!interpolator) {
                     this.interpolators[jumper.id] = jumper.id !== this.localPlayerId ?
                         Rune.interpolatorLatency<number[]>({ maxSpeed: moveSpeed }) :
                         Rune.interpolator<number[]>();
@@ -273,9 +434,15 @@ export class BoingBoing implements graphics.Game {
 
                 const futureJumper = update.futureGame.jumpers.find(j => j.id === jumper.id);
                 if (futureJumper) {
+                    // when wrapping, positions are given to the interpolator carrying on
+                    // from where it is rather than jumping back across the screen, the
+                    // position is wrapped back onto the screen when it's rendered
+                    const from = interpolator ? interpolator.getPosition()[0] : jumper.x;
+                    const x = wrap ? from + horizontalOffset(from, jumper.x, true) : jumper.x;
+                    const futureX = wrap ? x + horizontalOffset(jumper.x, futureJumper.x, true) : futureJumper.x;
                     this.interpolators[jumper.id].update({
-                        game: [jumper.x, jumper.y],
-                        futureGame: [futureJumper.x, futureJumper.y]
+                        game: [x, jumper.y],
+                        futureGame: [futureX, futureJumper.y]
                     })
                 }
             }
@@ -284,7 +451,11 @@ export class BoingBoing implements graphics.Game {
         // The logic layer runs an update loop of its own and events can 
         // take place in it. These are recorded in the game state each frame
         // so we can render or play sound.Sounds appropriately
-        for (const event of this.game.events) {
+        const events = this.game.tick !== this.lastEventsTick ? this.game.events : [];
+        this.lastEventsTick = this.game.tick;
+        for (const event of events) {
+            this.playEffects(event);
+
             // if we jumped then play a sound.Sound - only if it's us jumping and not
             // another player or it gets very loud
             if (event.type === GameEventType.BOUNCE && event.playerId === this.localPlayerId) {
@@ -293,23 +464,64 @@ export class BoingBoing implements graphics.Game {
                     sound.playSound(this.sfxJump);
                 }
             }
-            // The game is over, celebrate!
+            // The game is over, celebrate! and keep a copy of the recording
+            // of the round so it can be watched or exported
             if (event.type === GameEventType.WIN) {
                 sound.playSound(this.sfxFanfare);
                 this.interpolators = {};
+                if (this.game.replay) {
+                    this.lastReplay = JSON.parse(JSON.stringify(this.game.replay));
+                }
+                this.saveGhost();
             }
             if (event.type === GameEventType.START_NEW_GAME) {
                 this.interpolators = {};
+                this.ghostRecording = [];
+                this.leaderboardRows = {};
             }
             // The local player died, play the death sound.Sound effect
             if (event.type === GameEventType.DIE && event.playerId === this.localPlayerId) {
                 sound.playSound(this.sfxUrgh);
+                this.saveGhost();
             }
             // The local player hit a spring, BOOOOOIIIINNNNNGGG!
             if (event.type === GameEventType.SPRING && event.playerId === this.localPlayerId) {
                 sound.playSound(this.sfxBoing);
             }
+            // The local player picked up a power up
+            if (event.type === GameEventType.JETPACK && event.playerId === this.localPlayerId) {
+                sound.playSound(this.sfxPowerUps["jetpack"]);
+            }
+            if (event.type === GameEventType.SHIELD && event.playerId === this.localPlayerId) {
+                sound.playSound(this.sfxPowerUps["shield"]);
+            }
+            if (event.type === GameEventType.MAGNET && event.playerId === this.localPlayerId) {
+                sound.playSound(this.sfxPowerUps["magnet"]);
+            }
+            // The local player unlocked an achievement, let them know
+            if (event.type === GameEventType.ACHIEVEMENT && event.playerId === this.localPlayerId && event.achievement) {
+                const achievement = achievements[event.achievement];
+                this.toasts.push({ title: "Achievement Unlocked!", text: achievement.name, life: TOAST_LIFE });
+                sound.playSound(this.sfxFanfare);
+            }
+            // The local player's shield saved them
+            if (event.type === GameEventType.SHIELD_BREAK && event.playerId === this.localPlayerId) {
+                sound.playSound(this.sfxJump);
+            }
+            // Players ran into each other, show where it happened and
+            // let the players involved hear it
+            if (event.type === GameEventType.STOMP || event.type === GameEventType.BUMP) {
+                const jumper = this.game.jumpers.find(j => j.id === event.otherPlayerId);
+                if (jumper) {
+                    this.popups.push({ x: jumper.x, y: jumper.y + 0.08, text: event.type === GameEventType.STOMP ? "STOMP!" : "BUMP!", life: 30 });
+                }
+                if (event.playerId === this.localPlayerId || event.otherPlayerId === this.localPlayerId) {
+                    sound.playSound(event.type === GameEventType.STOMP ? this.sfxBoing : this.sfxClick);
+                }
+            }
         }
+        this.recordGhost();
+
         // we have to schedule the potential change to controls
         // so that we're not effecting the game from within the 
         // game update callback
@@ -317,11 +529,13 @@ export class BoingBoing implements graphics.Game {
             // send controls at most 10 times a second - Rune doesn't allow
             // more actions than that and only if the controls have changed
             if (this.sentControls.left !== this.controls.left ||
-                this.sentControls.right !== this.controls.right) {
+                this.sentControls.right !== this.controls.right ||
+                this.sentControls.axis !== this.controls.axis) {
                 if (Date.now() - this.lastControlsSent > TENTH_OF_A_SECOND_IN_MS) {
                     Rune.actions.controls({ controls: { ...this.controls } });
                     this.sentControls.left = this.controls.left;
                     this.sentControls.right = this.controls.right;
+                    this.sentControls.axis = this.controls.axis;
                     this.lastControlsSent = Date.now();
                 }
             }
@@ -345,10 +559,50 @@ export class BoingBoing implements graphics.Game {
             return;
         }
 
+        // when watching a replay we move the replay on and render the
+        // game state from it as though it was at the time in the replay
+        if (this.replayPlayer) {
+            const player = this.replayPlayer;
+            const events = player.update(Date.now());
+            this.game = player.game;
+            // show the particles and shakes for what happens as the replay
+            // plays. The sounds are only for the live game, they'd be a
+            // racket at the faster speeds
+            for (const event of events) {
+                this.playEffects(event);
+            }
+            this.renderGame();
+            this.drawReplayControls(player);
+            return;
+        }
+
+        // combine all the input sources into the controls we'll send, the
+        // axis is rounded as the logic would so tiny wobbles aren't sent
+        this.controls = this.input.poll();
+        this.controls.axis = steeringAxis(this.controls);
+        this.renderGame();
+    }
+
+    // the game time being shown. When watching a replay the renderer uses
+    // the time in the replay rather than the time in the live room
+    gameTime(): number {
+        return this.replayPlayer ? this.replayPlayer.time : Rune.gameTime();
+    }
+
+    // render the game world and HUD for the current game state
+    renderGame(): void {
+        if (!this.game) {
+            return;
+        }
+
         // we'll scroll the view so our players is in the middle of the screen (that the - 0.5) - 
         // but its not quite that the simple, we actually want to scroll the view so we're looking at the highest
         // point that the player has reached, this is how they can fall of the screen
+        // spectators follow the jumper they've picked while they're alive
         let localPlayer = this.game.jumpers.find(j => j.id === this.localPlayerId);
+        if (!localPlayer && this.spectating()) {
+            localPlayer = this.game.jumpers.find(j => j.id === this.spectateTarget && !j.dead);
+        }
         if (!localPlayer) {
             localPlayer = this.game.jumpers[0];
             for (const jumper of this.game.jumpers) {
@@ -362,42 +616,39 @@ export class BoingBoing implements graphics.Game {
 
         const scroll = Math.floor(Math.max(0, (highest - 0.5)) * graphics.height());
 
-        // background rendering, we just use two copies of each layer and render them on top of 
-        // each other offsetting by a factor of the player's view position. The factor changes per layer
-        // so things in the background scroll slower than things in the foreground
-        const theme = this.game.theme;
-        const background = this.backgrounds[theme];
-        const backgroundHeight = Math.floor((graphics.width() / background.layer1.width) * background.layer1.height);
-        graphics.drawImage(background.layer1, 0, graphics.height() - backgroundHeight, graphics.width(), backgroundHeight);
-        graphics.drawImage(background.layer1, 0, graphics.height() - (backgroundHeight * 2) + 5, graphics.width(), backgroundHeight);
-        graphics.push();
-        graphics.translate(0, Math.floor(scroll / 3) % backgroundHeight);
-        for (let i = 0; i < 3; i++) {
-            graphics.drawImage(background.layer2, 0, graphics.height() - backgroundHeight, graphics.width(), backgroundHeight);
-            graphics.translate(0, -backgroundHeight);
-        }
-        graphics.pop();
+        const theme = resolveTheme(this.themes, this.game.theme, this.game.themeRoll);
+        this.playThemeMusic(theme);
 
-        graphics.push();
-        graphics.translate(0, Math.floor(scroll / 1.5) % backgroundHeight);
-        for (let i = 0; i < 3; i++) {
-            graphics.drawImage(background.layer3, 0, graphics.height() - backgroundHeight, graphics.width(), backgroundHeight);
-            graphics.translate(0, -backgroundHeight);
+        // background rendering, we just use copies of each layer and render them on top of 
+        // each other offsetting by a factor of the player's view position. The factor comes from
+        // the theme's manifest so things in the background scroll slower than things in the foreground
+        for (const layer of theme.layers) {
+            const backgroundHeight = Math.floor((graphics.width() / layer.image.width) * layer.image.height);
+            graphics.push();
+            graphics.translate(0, Math.floor(scroll * layer.scroll) % backgroundHeight);
+            for (let i = 0; i < 3; i++) {
+                graphics.drawImage(layer.image, 0, graphics.height() - backgroundHeight, graphics.width(), backgroundHeight);
+                graphics.translate(0, -backgroundHeight);
+            }
+            graphics.pop();
         }
-        graphics.pop();
 
         graphics.push();
 
-        // scroll all rendering by the current view location
-        graphics.translate(0, scroll);
+        // scroll all rendering by the current view location, shaking
+        // it about if something dramatic has happened
+        const shakeX = Math.round((Math.random() - 0.5) * 2 * this.shake);
+        const shakeY = Math.round((Math.random() - 0.5) * 2 * this.shake);
+        this.shake = this.shake * SHAKE_DECAY < 0.5 ? 0 : this.shake * SHAKE_DECAY;
+        graphics.translate(shakeX, scroll + shakeY);
 
         // calculate how big things should be - this is really important, coordinates for players
         // platforms, enemies and other stuff are all in terms of screen size, e.g. x is 0.5 if the
         // player is half way across the screen. So everything in turn gets scaled to the appropriate
         // screen size. This means everyone should see the same thing no matter the screen size.
         const platformSpriteWidth = Math.floor(graphics.width() / 6);
-        const generalScale = (platformSpriteWidth / this.platforms[0].width);
-        const platformHeight = generalScale * this.platforms[0].height;
+        const generalScale = (platformSpriteWidth / this.themes[0].platform.width);
+        const platformHeight = generalScale * this.themes[0].platform.height;
 
         // render all the platforms if they're on screen
         const firstVisiblePlatformIndex = Math.floor((Math.max(0, highest) - 0.5) / rowHeight);
@@ -410,10 +661,25 @@ export class BoingBoing implements graphics.Game {
             if (Math.abs(platform.y - highest) > 1) {
                 continue;
             }
-            const platformSprite = platform.faller ? this.platformsBroken[theme] : this.platforms[theme];
+            // vanished platforms are gone for good
+            if (platform.vanished) {
+                continue;
+            }
+            const platformSprite = platform.faller ? theme.brokenPlatform : theme.platform;
+
+            // vanishing platforms are see-through, and flicker once
+            // they've been touched and are about to go. Sliding platforms
+            // are tinted so players can see they're going to move
+            let platformAlpha = 1;
+            if (platform.vanisher) {
+                platformAlpha = platform.vanishAt === -1 ? 0.6 : Math.floor(this.anim * 5) % 2 === 0 ? 0.2 : 0.6;
+            }
+            const tint = platform.slider ? "#A0D8FF" : undefined;
 
             const widthScale = platform.width / platformWidth;
-            graphics.drawImage(platformSprite, Math.floor(platform.x * graphics.width()), graphics.height() - Math.floor(platform.y * graphics.height()), platformSpriteWidth * widthScale, platformHeight);
+            graphics.alpha(platformAlpha);
+            graphics.drawImage(platformSprite, Math.floor(platform.x * graphics.width()), graphics.height() - Math.floor(platform.y * graphics.height()), platformSpriteWidth * widthScale, platformHeight, tint);
+            graphics.alpha(1);
 
         }
         // render the contents of the platform afterwards so platforms don't
@@ -440,9 +706,27 @@ export class BoingBoing implements graphics.Game {
             }
         }
 
+        // in a race render the finish line across the screen when it's in view
+        if (this.game.settings.mode === "race" && Math.abs(raceFinishHeight - highest) < 1) {
+            const finishY = graphics.height() - Math.floor(raceFinishHeight * graphics.height());
+            for (let i = 0; i < graphics.width(); i += 20) {
+                graphics.fillRect(i, finishY, 10, 5, (i / 20) % 2 === 0 ? "white" : "black");
+                graphics.fillRect(i + 10, finishY, 10, 5, (i / 20) % 2 === 0 ? "black" : "white");
+            }
+            graphics.outlineText(Math.floor((graphics.width() - graphics.textWidth("FINISH", this.font16black)) / 2), finishY - 8, "FINISH", this.font16white, 2, this.font16black);
+        }
+
+        // render the power ups waiting to be collected
+        for (const powerUp of this.game.powerUps) {
+            if (Math.abs(powerUp.y - highest) > 1) {
+                continue;
+            }
+            this.drawPowerUp(powerUp.type, Math.floor(powerUp.x * graphics.width()), graphics.height() - Math.floor(powerUp.y * graphics.height()) + Math.floor(Math.sin(this.anim) * 3), Math.floor(platformSpriteWidth / 4));
+        }
+
         // render the enemies (birds and bar)
         for (const enemy of this.game.enemies) {
-            const sprite = this.enemySprites[enemy.type];
+            const sprite = theme.enemies[enemy.type] ?? this.enemySprites[enemy.type];
             graphics.push();
             graphics.translate(enemy.x * graphics.width(), graphics.height() - enemy.y * graphics.height());
             const width = sprite[0].width * generalScale;
@@ -450,10 +734,30 @@ export class BoingBoing implements graphics.Game {
             if (enemy.dir === "left") {
                 graphics.scale(-1, 1);
             }
-            graphics.drawImage(sprite[Math.floor(this.anim * 2) % 4], -Math.floor(width / 2), -Math.floor(height / 2), width, height);
+            graphics.drawImage(sprite[Math.floor(this.anim * 2) % sprite.length], -Math.floor(width / 2), -Math.floor(height / 2), width, height);
             graphics.pop();
         }
 
+        // render the ghost of the local player's best round to race against
+        const ghostJumper = this.game.jumpers.find(j => j.id === this.localPlayerId);
+        if (this.ghost && ghostJumper && this.game.jumping && !this.replayPlayer) {
+            const elapsed = this.gameTime() - this.game.startAt;
+            const position = ghostPosition(this.ghostPoints, this.ghost.interval, elapsed);
+            if (position && Math.abs(position[1] - highest) < 1) {
+                const ahead = ghostPosition(this.ghostPoints, this.ghost.interval, elapsed + 100);
+                const jumperSprite = this.jumpers[ghostJumper.type];
+                const frame = ahead && ahead[1] > position[1] ? jumperSprite.jump : jumperSprite.idle;
+                const width = Math.floor(frame.width * generalScale * 0.8);
+                const height = Math.floor(frame.height * generalScale * 0.8);
+                const x = Math.floor(position[0] * graphics.width()) - Math.floor(width / 2);
+                const y = graphics.height() - (Math.floor(position[1] * graphics.height()) + (height * this.jumperHeights[ghostJumper.type]));
+                graphics.alpha(0.35);
+                graphics.drawImage(frame, x, y, width, height, jumperSprite.tint);
+                graphics.drawText(x + Math.floor((width - graphics.textWidth("Best", this.font12white)) / 2), y - 4, "Best", this.font12white);
+                graphics.alpha(1);
+            }
+        }
+
         // render the players jumping around
         for (const jumper of this.game.jumpers) {
             // pick the correct character and frame of action
@@ -468,8 +772,7 @@ export class BoingBoing implements graphics.Game {
 
             // determine the logic position to render at either by using an interpolator
             // or the actual position 
-            const jumperX = this.interpolators[jumper.id] ? this.interpolators[jumper.id].getPosition()[0] : jumper.x;
-            const jumperY = this.interpolators[jumper.id] ? this.interpolators[jumper.id].getPosition()[1] : jumper.y;
+            const [jumperX, jumperY] = this.jumperPosition(jumper);
 
             // if the player is off screen then we'll render 
             // an arrow later, otherwise draw the character frame
@@ -478,7 +781,43 @@ export class BoingBoing implements graphics.Game {
             if (!localPlayer?.dead && localPlayer && (jumperY < localPlayer.highest - 0.5 || jumperY > localPlayer.highest + 0.5)) {
                 // offscreen so lets draw a marker
             } else {
-                graphics.drawImage(frame, x, y, width, height);
+                // jetpacks leave a flickering flame below the jumper
+                if (jumper.jetpackUntil > this.gameTime() && !jumper.dead) {
+                    const flameHeight = Math.floor(height * (0.3 + (Math.sin(this.anim * 10) * 0.1)));
+                    graphics.fillRect(x + Math.floor(width / 2) - 4, y + height, 8, flameHeight, powerUpTypes.jetpack.color);
+                    graphics.fillRect(x + Math.floor(width / 2) - 2, y + height, 4, Math.floor(flameHeight / 2), "yellow");
+                }
+                // players that lost their connection are faded out while we
+                // wait to see if they come back
+                const disconnected = jumper.disconnectedAt !== -1;
+                // squash the sprite when they land and stretch it as they rise,
+                // keeping their feet in the same place
+                const squash = this.squash[jumper.id] ?? 0;
+                const stretch = jumper.dead || !this.game.jumping ? 0 : Math.max(0, Math.min(1, jumper.vy / defaultJumpPower)) * MAX_STRETCH;
+                const drawWidth = Math.floor(width * (1 + (squash * SQUASH_AMOUNT) - stretch));
+                const drawHeight = Math.floor(height * (1 - (squash * SQUASH_AMOUNT) + stretch));
+                const drawX = x + Math.floor((width - drawWidth) / 2);
+                const drawY = y + height - drawHeight;
+                this.squash[jumper.id] = squash * SQUASH_DECAY;
+                graphics.alpha(disconnected ? 0.4 : 1);
+                for (const copyX of this.wrappedCopies(drawX, drawWidth)) {
+                    graphics.drawImage(frame, copyX, drawY, drawWidth, drawHeight, jumperSprite.tint);
+                }
+                graphics.alpha(1);
+                if (disconnected) {
+                    graphics.outlineText(x + Math.floor((width - graphics.textWidth("Reconnecting...", this.font16black)) / 2), y - 24, "Reconnecting...", this.font16white, 2, this.font16black);
+                }
+                // in team mode everyone gets a name tag in their team's colour
+                if (this.game.settings.teams && !jumper.dead) {
+                    const name = this.displayName(jumper.id);
+                    graphics.outlineText(x + Math.floor((width - graphics.textWidth(name, this.font16black)) / 2), y - 6, name, this.nameFont(jumper), 2, this.font16black);
+                }
+                // shields are shown as a bubble round the jumper
+                if (jumper.shield && !jumper.dead) {
+                    graphics.alpha(0.3);
+                    graphics.fillRect(x - 4, y - 4, width + 8, height + 8, powerUpTypes.shield.color);
+                    graphics.alpha(1);
+                }
             }
 
             // if we're at the start then we want to render a green bouncing
@@ -494,16 +833,28 @@ export class BoingBoing implements graphics.Game {
             }
         }
 
+        // render the particles thrown out by things that have happened
+        this.particles.render();
+
+        // render the popups floating up from where they happened
+        for (const popup of this.popups) {
+            const popupX = Math.floor(popup.x * graphics.width()) - Math.floor(graphics.textWidth(popup.text, this.font16black) / 2);
+            const popupY = graphics.height() - Math.floor(popup.y * graphics.height()) - (30 - popup.life);
+            graphics.outlineText(popupX, popupY, popup.text, this.font16white, 2, this.font16black);
+            popup.life--;
+        }
+        this.popups = this.popups.filter(p => p.life > 0);
+
         // render any players that have already died as lines across the game field
         // showing how far they got
-        if (!gameOver(this.game)) {
+        if (!gameOver(this.game, this.gameTime())) {
             for (const jumper of this.game.jumpers) {
                 if (jumper.dead) {
                     const y = graphics.height() - Math.floor(jumper.highest * graphics.height());
                     graphics.fillRect(0, y, graphics.width(), 23, "rgba(0,0,0,0.5)");
                     graphics.fillRect(0, y, graphics.width(), 3, "white");
                     if (this.players) {
-                        graphics.drawText(10, y + 18, this.players[jumper.id].displayName, this.font16white);
+                        graphics.drawText(10, y + 18, this.displayName(jumper.id), this.font16white, this.teamColor(jumper));
                     }
                     continue;
                 }
@@ -523,42 +874,76 @@ export class BoingBoing implements graphics.Game {
                     continue;
                 }
 
-                const jumperX = this.interpolators[jumper.id] ? this.interpolators[jumper.id].getPosition()[0] : jumper.x;
-                const jumperY = this.interpolators[jumper.id] ? this.interpolators[jumper.id].getPosition()[1] : jumper.y;
+                const [jumperX, jumperY] = this.jumperPosition(jumper);
 
                 const x = Math.floor(jumperX * graphics.width());
                 if (localPlayer && (jumperY < localPlayer.highest - 0.5 || jumperY > localPlayer.highest + 0.5)) {
                     // offscreen so lets draw a marker
                     if (localPlayer.highest < jumperY) {
                         if (this.players) {
-                            graphics.outlineText(x - Math.floor(graphics.textWidth(this.players[jumper.id].displayName, this.font16black) / 2), 70, this.players[jumper.id].displayName, this.font16white, 2, this.font16black);
+                            graphics.outlineText(x - Math.floor(graphics.textWidth(this.displayName(jumper.id), this.font16black) / 2), 70, this.displayName(jumper.id), this.nameFont(jumper), 2, this.font16black);
                         }
-                        graphics.drawImage(this.arrowUp, x - 16, 32, this.arrowUp.width, this.arrowUp.height);
+                        graphics.drawImage(this.arrowUp, x - 16, 32, this.arrowUp.width, this.arrowUp.height, this.teamColor(jumper));
                     } else {
                         if (this.players) {
-                            graphics.outlineText(x - Math.floor(graphics.textWidth(this.players[jumper.id].displayName, this.font16black) / 2), graphics.height() - 57, this.players[jumper.id].displayName,  this.font16white, 2, this.font16black);
+                            graphics.outlineText(x - Math.floor(graphics.textWidth(this.displayName(jumper.id), this.font16black) / 2), graphics.height() - 57, this.displayName(jumper.id), this.nameFont(jumper), 2, this.font16black);
                         }
-                        graphics.drawImage(this.arrowDown, x - 16, graphics.height() - 50, this.arrowDown.width, this.arrowDown.height);
+                        graphics.drawImage(this.arrowDown, x - 16, graphics.height() - 50, this.arrowDown.width, this.arrowDown.height, this.teamColor(jumper));
                     }
                 }
             }
         }
 
+        // show the power ups the local player has active under the
+        // clock, along with how long they've got left
+        if (localPlayer && localPlayer.id === this.localPlayerId && !localPlayer.dead && this.game.jumping) {
+            const active: { type: PowerUpType, remaining: string }[] = [];
+            if (localPlayer.jetpackUntil > this.gameTime()) {
+                active.push({ type: "jetpack", remaining: Math.ceil((localPlayer.jetpackUntil - this.gameTime()) / 1000) + "s" });
+            }
+            if (localPlayer.magnetUntil > this.gameTime()) {
+                active.push({ type: "magnet", remaining: Math.ceil((localPlayer.magnetUntil - this.gameTime()) / 1000) + "s" });
+            }
+            if (localPlayer.shield) {
+                active.push({ type: "shield", remaining: "" });
+            }
+            let indicatorY = 60;
+            for (const indicator of active) {
+                this.drawPowerUp(indicator.type, graphics.width() - 20, indicatorY, 24);
+                graphics.drawText(graphics.width() - 40 - graphics.textWidth(indicator.remaining, this.font16white), indicatorY + 6, indicator.remaining, this.font16white);
+                indicatorY += 30;
+            }
+        }
+
         let deadOffset = 0;
 
-        // if the game has started render the count down clock.
+        // if the game has started render the bar at the top, showing the count
+        // down clock, the survivors or the distance to the finish depending on
+        // the game mode
         if (this.game.startAt !== -1) {
-            let remaining = (roundTime - (Rune.gameTime() - this.game.startAt));
-            remaining = Math.min(roundTime, remaining);
-            remaining = Math.max(0, remaining);
-            remaining = Math.floor(remaining / 1000);
-
-            const secs = remaining % 60;
-            const mins = Math.floor(remaining / 60);
-            const timeStr = mins + ":" + (secs < 10 ? "0" : "") + secs;
+            let status = "";
+            if (this.game.settings.mode === "timed") {
+                let remaining = (this.game.settings.roundLength - (this.gameTime() - this.game.startAt));
+                remaining = Math.min(this.game.settings.roundLength, remaining);
+                remaining = Math.max(0, remaining);
+                remaining = Math.floor(remaining / 1000);
+
+                const secs = remaining % 60;
+                const mins = Math.floor(remaining / 60);
+                status = mins + ":" + (secs < 10 ? "0" : "") + secs;
+            } else if (this.game.settings.mode === "elimination") {
+                status = livingJumpers(this.game, this.gameTime()).length + " left";
+            } else if (this.game.settings.mode === "race") {
+                const climbed = localPlayer ? localPlayer.highest : 0;
+                status = Math.max(0, Math.ceil((raceFinishHeight - climbed) * 10)) + "m";
+            }
             graphics.fillRect(0, 0, graphics.width(), 38, "rgba(0,0,0,0.5)");
-            graphics.drawText(graphics.width() - 5 - graphics.textWidth(timeStr, this.font30black), 34, timeStr, this.font30black);
-            graphics.drawText(graphics.width() - 5 - graphics.textWidth(timeStr, this.font30white), 30, timeStr, this.font30white);
+
+            // show the difficulty being played in the middle of the bar
+            const profile = difficultyProfiles[this.game.settings.difficulty];
+            graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(profile.label, this.font16white)) / 2), 26, profile.label, this.font16white, profile.color);
+            graphics.drawText(graphics.width() - 5 - graphics.textWidth(status, this.font30black), 34, status, this.font30black);
+            graphics.drawText(graphics.width() - 5 - graphics.textWidth(status, this.font30white), 30, status, this.font30white);
         }
 
         // render any players that have already died as mini-sprites in the top left of the
@@ -570,38 +955,92 @@ export class BoingBoing implements graphics.Game {
                 const jumperScale = generalScale * 0.5;
                 const width = Math.floor(frame.width * jumperScale);
                 const height = Math.floor(frame.height * jumperScale);
-                graphics.drawImage(frame, deadOffset, 0, Math.floor(width / 2), Math.floor(height / 2));
+                graphics.drawImage(frame, deadOffset, 0, Math.floor(width / 2), Math.floor(height / 2), jumperSprite.tint);
                 deadOffset += width / 2;
             }
         }
 
         // if we haven't joined yet then render the character selection screen
         // and the score board
-        if (this.waitingToJoin() && this.localPlayerId) {
+        if (!this.replayPlayer && this.waitingToJoin() && !this.spectating() && this.localPlayerId) {
             graphics.fillRect(0, 0, graphics.width(), graphics.height(), "rgba(0,0,0,0.5)")
             // draw the level select if we're not in game
-            const boxWidth = Math.floor(graphics.width() / 4);
+            const boxWidth = Math.floor((graphics.width() * 0.75) / CHARACTER_COLUMNS);
             const boxHeight = Math.floor((boxWidth / this.box.width) * this.box.height);
-
-            // render our characters as a grid to be selected from
-            for (let i = 0; i < 9; i++) {
-                const x = i % 3;
-                const y = Math.floor(i / 3);
+            const level = levelForXp(this.stats?.xp ?? 0);
+
+            // render the local player's level and lifetime record above the characters
+            const levelText = "Level " + level + " - " + (this.stats?.xp ?? 0) + "/" + xpForLevel(level + 1) + " XP";
+            const recordText = "Wins " + (this.stats?.wins ?? 0) + "  Best " + Math.floor((this.stats?.best ?? 0) * 10) + "m  Rounds " + (this.stats?.rounds ?? 0) + "  Bounces " + (this.stats?.bounces ?? 0);
+            graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(levelText, this.font12white)) / 2), 24, levelText, this.font12white);
+            graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(recordText, this.font12white)) / 2), 42, recordText, this.font12white);
+
+            // render our characters as a grid to be selected from, the
+            // ones that haven't been unlocked yet are faded out and show
+            // the level they unlock at
+            for (let i = 0; i < characters.length; i++) {
+                const x = i % CHARACTER_COLUMNS;
+                const y = Math.floor(i / CHARACTER_COLUMNS);
+                const unlocked = characterUnlocked(i, level);
                 if (i !== this.selectedType) {
                     graphics.drawImage(this.boxGrey, Math.floor(graphics.width() * 0.125) + (x * boxWidth), 50 + (y * boxHeight), boxWidth - 5, boxHeight - 5);
                 } else {
                     graphics.drawImage(this.box, Math.floor(graphics.width() * 0.125) + (x * boxWidth), 50 + (y * boxHeight), boxWidth - 5, boxHeight - 5);
                 }
                 const frame = this.jumpers[i].idle;
-                const selectScale = generalScale * 0.8;
+                const selectScale = generalScale * 0.6;
+                graphics.alpha(unlocked ? 1 : 0.3);
                 graphics.drawImage(frame, Math.floor(graphics.width() * 0.12) + (x * boxWidth) + Math.floor(boxWidth / 2) - Math.floor(frame.width * selectScale * 0.5),
-                    50 + Math.floor((y + 0.02) * boxHeight), frame.width * selectScale, frame.height * selectScale);
+                    50 + Math.floor((y + 0.02) * boxHeight), frame.width * selectScale, frame.height * selectScale, this.jumpers[i].tint);
+                graphics.alpha(1);
+                if (!unlocked) {
+                    const lockText = "Lv " + characters[i].level;
+                    graphics.outlineText(Math.floor(graphics.width() * 0.125) + (x * boxWidth) + Math.floor((boxWidth - 5 - graphics.textWidth(lockText, this.font16black)) / 2),
+                        50 + (y * boxHeight) + Math.floor(boxHeight / 2), lockText, this.font16white, 2, this.font16black);
+                }
+            }
+
+            // render the room settings under the characters, tapping
+            // one cycles through the choices. Only the host can change
+            // them so everyone else sees them faded out
+            const optionsY = 50 + (Math.ceil(characters.length / CHARACTER_COLUMNS) * boxHeight);
+            const halfWidth = Math.floor(((boxWidth * CHARACTER_COLUMNS) - 5) / 2);
+            this.drawLobbyOptions(Math.floor(graphics.width() * 0.125), optionsY, halfWidth);
+
+            // in team mode let the player pick which team to join
+            let rowY = optionsY + (this.lobbyOptionRows() * LOBBY_OPTION_HEIGHT);
+            if (this.game.settings.teams) {
+                teams.forEach((team, index) => {
+                    const buttonX = Math.floor(graphics.width() * 0.125) + (index * (halfWidth + 5));
+                    graphics.fillRect(buttonX, rowY, halfWidth, LOBBY_OPTION_HEIGHT - 5, index === this.selectedTeam ? team.color : "rgba(0,0,0,0.5)");
+                    graphics.drawText(buttonX + Math.floor((halfWidth - graphics.textWidth(team.name + " Team", this.font16white)) / 2), rowY + 21, team.name + " Team", this.font16white);
+                });
+                rowY += LOBBY_OPTION_HEIGHT;
+            }
+
+            // the buttons to show the gallery of achievements and the controls menu
+            const achievementsText = "Achievements " + this.unlockedAchievements.length + "/" + Object.keys(achievements).length;
+            const menuY = rowY;
+            [[achievementsText, "#FFD700"], ["Controls", "white"]].forEach(([label, color], index) => {
+                const buttonX = Math.floor(graphics.width() * 0.125) + (index * (halfWidth + 5));
+                graphics.fillRect(buttonX, menuY, halfWidth, LOBBY_OPTION_HEIGHT - 5, "rgba(0,0,0,0.5)");
+                graphics.drawText(buttonX + Math.floor((halfWidth - graphics.textWidth(label, this.font12white)) / 2), menuY + 19, label, this.font12white, color);
+            });
+            rowY += LOBBY_OPTION_HEIGHT;
+
+            // if there's a recording of the last round offer to watch or export it
+            if (this.lastReplay) {
+                const replayY = rowY;
+                ["Watch Replay", "Export Replay"].forEach((label, index) => {
+                    const buttonX = Math.floor(graphics.width() * 0.125) + (index * (halfWidth + 5));
+                    graphics.fillRect(buttonX, replayY, halfWidth, LOBBY_OPTION_HEIGHT - 5, "rgba(0,0,0,0.5)");
+                    graphics.drawText(buttonX + Math.floor((halfWidth - graphics.textWidth(label, this.font16white)) / 2), replayY + 21, label, this.font16white);
+                });
             }
 
             // render the big orange start button
-            const startWidth = Math.floor(graphics.width() / 5);
-            const startHeight = Math.floor((startWidth / this.startButton.width) * this.startButton.height);
-            graphics.drawImage(this.startButton, Math.floor((graphics.width() - startWidth) / 2), graphics.height() - (startHeight * 1.2) - 110, startWidth, startHeight);
+            const start = this.startButtonBounds();
+            graphics.drawImage(this.startButton, start.x, start.y, start.width, start.height);
 
             // render the score board 
             const cols = ["rgba(0,0,0,0.7)", "rgba(10,10,10,0.7)"];
@@ -622,6 +1061,16 @@ export class BoingBoing implements graphics.Game {
                     })
                 }
             }
+            // in team mode the team wins go above the players' own
+            if (this.game.settings.teams) {
+                graphics.fillRect(0, graphics.height() - 135, graphics.width(), 25, cols[1]);
+                let teamX = 5;
+                teams.forEach((team, index) => {
+                    const text = team.name + " Team: " + this.game?.teamScores[index];
+                    graphics.drawText(teamX, graphics.height() - 117, text, this.font16white, team.color);
+                    teamX += graphics.textWidth(text, this.font16white) + 20;
+                });
+            }
             for (let i = 0; i < 6; i++) {
                 graphics.fillRect(0, (graphics.height() - 110) + (i * 20), graphics.width(), 20, cols[i % 2]);
                 const line = lines[i];
@@ -641,10 +1090,17 @@ export class BoingBoing implements graphics.Game {
                 }
             }
 
-        } else if (!this.game.jumping && this.localPlayerId) {
+            // the gallery of achievements and the controls menu go over everything else
+            if (this.showAchievements) {
+                this.drawAchievements();
+            }
+            if (this.showControls) {
+                this.drawControlsMenu();
+            }
+        } else if (!this.replayPlayer && !this.game.jumping && this.localPlayerId) {
             // if the game is about to start then render the 3/2/1 countdown
             // int he middle of the screen based on how much time there is remaining
-            const tilStart = Math.ceil((this.game.startAt - Rune.gameTime()) / 1000);
+            const tilStart = Math.ceil((this.game.startAt - this.gameTime()) / 1000);
             if (tilStart <= 5 && tilStart > 0) {
                 const secs = "" + tilStart;
 
@@ -653,24 +1109,75 @@ export class BoingBoing implements graphics.Game {
                 graphics.alpha(1);
                 graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(secs, this.font80white)) / 2), 180, secs, this.font80white);
             }
+            // while in the lobby show how many have joined and let the ones that
+            // have ready up, the countdown starts once everyone that's joined is
+            // ready and anyone still picking a character watches the round
+            if (this.game.startAt === -1 && this.players) {
+                const joinedText = this.game.jumpers.length + "/" + Object.keys(this.players).length + " joined";
+                const ready = this.game.lobby.ready.includes(this.localPlayerId);
+                const readyText = (ready ? "Ready! Waiting " : "Tap when Ready ") + this.game.lobby.ready.length + "/" + this.game.jumpers.length;
+                const button = this.readyButtonBounds();
+                graphics.outlineText(Math.floor((graphics.width() - graphics.textWidth(joinedText, this.font16black)) / 2), button.y - 10, joinedText, this.font16white, 2, this.font16black);
+                graphics.fillRect(button.x, button.y, button.width, button.height - 5, ready ? "rgba(0,128,0,0.7)" : "rgba(0,0,0,0.5)");
+                graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(readyText, this.font16white)) / 2), button.y + 21, readyText, this.font16white);
+
+                // the room settings stay under the ready button so the host
+                // can still change them after picking a character
+                this.drawLobbyOptions(button.x, this.joinedOptionsY(), Math.floor((button.width - 5) / 2));
+            }
             this.drawInstructions();
-        } else if (gameOver(this.game) && this.players) {
+        } else if (gameOver(this.game, this.gameTime()) && this.players) {
             // render the winning message if the game is over and we 
             // have player details
-            const winner = [...this.game.jumpers].sort((a, b) => b.highest - a.highest)[0];
-            const name = this.players[winner.id].displayName;
-            const lines = [];
-            lines.push(name);
-            lines.push("Wins!");
-            lines.push("Height " + Math.floor(winner.highest * 10) + "m");
-            const frame = this.jumpers[winner.type].idle;
-            const x = Math.floor((graphics.width() - frame.width) / 2);
-            graphics.drawImage(frame, x, 50, frame.width, frame.height);
-            graphics.fillRect(0, frame.height + 40, graphics.width(), 135, "rgba(0,0,0,0.5)")
-            let offset = 0;
-            for (const line of lines) {
-                graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(line, this.font30white)) / 2), frame.height + 80 + offset, line, this.font30white);
-                offset += 35;
+            const winner = this.game.jumpers.find(j => j.id === this.game?.winner);
+            if (winner) {
+                const name = this.displayName(winner.id);
+                const lines = [];
+                // in team mode it's the team that wins, with their combined height
+                if (this.game.winningTeam !== -1) {
+                    lines.push(teams[this.game.winningTeam].name + " Team");
+                    lines.push("Wins!");
+                    lines.push("Height " + Math.floor(teamHeight(this.game, this.game.winningTeam) * 10) + "m");
+                } else {
+                    lines.push(name);
+                    lines.push("Wins!");
+                    lines.push("Height " + Math.floor(winner.highest * 10) + "m");
+                }
+                const frame = this.jumpers[winner.type].idle;
+                const x = Math.floor((graphics.width() - frame.width) / 2);
+                graphics.drawImage(frame, x, 50, frame.width, frame.height, this.jumpers[winner.type].tint);
+                graphics.fillRect(0, frame.height + 40, graphics.width(), 135, "rgba(0,0,0,0.5)")
+                let offset = 0;
+                for (const line of lines) {
+                    graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(line, this.font30white)) / 2), frame.height + 80 + offset, line, this.font30white);
+                    offset += 35;
+                }
+
+                this.drawResults(frame.height + 185);
+            }
+        }
+
+        // show everyone who's winning while the round is being played
+        if (this.game.jumping && !gameOver(this.game, this.gameTime())) {
+            this.drawLeaderboard();
+        }
+
+        // spectators also get to see who they're watching
+        if (this.spectating() && this.game.jumping && !gameOver(this.game, this.gameTime())) {
+            this.drawSpectatorHud(localPlayer);
+        }
+
+        // show the first toast waiting, sliding in from the top
+        const toast = this.toasts[0];
+        if (toast) {
+            const slide = Math.min(1, Math.min(toast.life, TOAST_LIFE - toast.life) / 10);
+            const toastY = Math.floor(45 * slide) - 5;
+            graphics.fillRect(Math.floor(graphics.width() * 0.1), toastY, Math.floor(graphics.width() * 0.8), 45, "rgba(0,0,0,0.8)");
+            graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(toast.title, this.font12white)) / 2), toastY + 17, toast.title, this.font12white, "#FFD700");
+            graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(toast.text, this.font16white)) / 2), toastY + 37, toast.text, this.font16white);
+            toast.life--;
+            if (toast.life <= 0) {
+                this.toasts.shift();
             }
         }
 
@@ -679,6 +1186,391 @@ export class BoingBoing implements graphics.Game {
         }
     }
 
+    // loop the music for the theme being shown, changing track if the theme
+    // has changed. The sound effects can't be stopped once they're looping
+    // so music is played through an audio element instead
+    playThemeMusic(theme: Theme): void {
+        const track = theme.music ?? null;
+        if (track !== this.musicTrack) {
+            this.music?.pause();
+            this.musicTrack = track;
+            this.music = track ? new Audio(track) : null;
+            if (this.music) {
+                this.music.loop = true;
+            }
+        }
+
+        // browsers won't play until the player has interacted with
+        // the page so keep asking until it's started
+        if (this.music?.paused) {
+            this.music.play().catch(() => undefined);
+        }
+    }
+
+    // throw out particles, squash jumpers and shake the screen for
+    // the things that happen in the game
+    playEffects(event: GameEvent): void {
+        const jumper = this.game?.jumpers.find(j => j.id === event.playerId);
+        if (event.type === GameEventType.BOUNCE && jumper) {
+            this.particles.emit(jumper.x, jumper.y, PARTICLE_EFFECTS.dust);
+            this.squash[jumper.id] = 1;
+        }
+        if (event.type === GameEventType.SPRING && jumper) {
+            this.particles.emit(jumper.x, jumper.y, PARTICLE_EFFECTS.sparkle);
+            this.squash[jumper.id] = 1;
+        }
+        if (event.type === GameEventType.PLATFORM_FALL && event.row !== undefined) {
+            const platform = this.game?.platforms[event.row];
+            if (platform) {
+                this.particles.emit(platform.x + (platform.width / 2), platform.y, PARTICLE_EFFECTS.debris);
+            }
+        }
+        if (event.type === GameEventType.DIE && jumper) {
+            this.particles.emit(jumper.x, jumper.y + 0.03, PARTICLE_EFFECTS.burst);
+            this.shake = Math.max(this.shake, jumper.id === this.localPlayerId ? DEATH_SHAKE : OTHER_DEATH_SHAKE);
+        }
+    }
+
+    // the position to draw a jumper at, smoothed by their interpolator if they
+    // have one and brought back onto the screen if they've wrapped
+    jumperPosition(jumper: Jumper): number[] {
+        const interpolator = this.interpolators[jumper.id];
+        const [x, y] = interpolator ? interpolator.getPosition() : [jumper.x, jumper.y];
+
+        return [this.game?.settings.wrap ? wrapX(x) : x, y];
+    }
+
+    // the screen x positions to draw something at. When wrapping, anything
+    // crossing an edge is drawn on the other side as well
+    wrappedCopies(x: number, width: number): number[] {
+        const copies = [x];
+        if (this.game?.settings.wrap) {
+            if (x < 0) {
+                copies.push(x + graphics.width());
+            }
+            if (x + width > graphics.width()) {
+                copies.push(x - graphics.width());
+            }
+        }
+
+        return copies;
+    }
+
+    // true if the local player is in the room but arrived after the round
+    // started, they watch until they can join the next one
+    spectating(): boolean {
+        return !!this.localPlayerId && !this.replayPlayer && !!this.game && this.game.startAt !== -1 &&
+            !this.game.jumpers.find(j => j.id === this.localPlayerId);
+    }
+
+    // move the spectator camera to the next or previous living jumper
+    cycleSpectateTarget(direction: number): void {
+        const living = this.game ? livingJumpers(this.game, this.gameTime()) : [];
+        if (living.length === 0) {
+            return;
+        }
+
+        const current = living.findIndex(j => j.id === this.spectateTarget);
+        const next = current === -1 ? 0 : (current + direction + living.length) % living.length;
+        this.spectateTarget = living[next].id;
+        sound.playSound(this.sfxClick);
+    }
+
+    // draw the spectator's view showing who the camera is following
+    drawSpectatorHud(watching: Jumper | undefined): void {
+        graphics.fillRect(0, graphics.height() - 60, graphics.width(), 60, "rgba(0,0,0,0.5)");
+        const name = watching ? "< Watching " + this.displayName(watching.id) + " >" : "Spectating";
+        graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(name, this.font16white)) / 2), graphics.height() - 35, name, this.font16white);
+        const queued = "You'll join the next round";
+        graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(queued, this.font12white)) / 2), graphics.height() - 15, queued, this.font12white);
+    }
+
+    // draw the live ranking of everyone's height in the top left, with how
+    // far behind the leader each player is. When ranks change the rows slide
+    // to their new places
+    drawLeaderboard(): void {
+        if (!this.game) {
+            return;
+        }
+
+        const ranked = [...this.game.jumpers].sort((a, b) => b.highest - a.highest);
+        const leader = ranked[0];
+        const rowWidth = 110;
+
+        ranked.forEach((jumper, index) => {
+            // slide the row towards where it should be for its rank
+            const current = this.leaderboardRows[jumper.id] ?? index;
+            const position = Math.abs(index - current) < 0.01 ? index : current + ((index - current) * LEADERBOARD_SLIDE);
+            this.leaderboardRows[jumper.id] = position;
+
+            const y = 45 + Math.floor(position * LEADERBOARD_ROW_HEIGHT);
+            graphics.alpha(jumper.dead ? 0.5 : 1);
+            graphics.fillRect(0, y, rowWidth, LEADERBOARD_ROW_HEIGHT - 2, jumper.id === this.localPlayerId ? "rgba(0,80,0,0.6)" : "rgba(0,0,0,0.5)");
+
+            // the avatars are loaded on demand, players that have
+            // left the room won't have one
+            const player = this.players?.[jumper.id];
+            if (player && !this.avatarImages[jumper.id]) {
+                this.avatarImages[jumper.id] = graphics.loadImage(player.avatarUrl, false);
+            }
+            if (this.avatarImages[jumper.id]) {
+                graphics.drawImage(this.avatarImages[jumper.id], 3, y + 2, 16, 16);
+            }
+
+            const height = Math.floor(jumper.highest * 10) + "m";
+            graphics.drawText(24, y + 15, height, this.font12white, this.teamColor(jumper));
+            if (jumper !== leader) {
+                const gap = "-" + (Math.floor(leader.highest * 10) - Math.floor(jumper.highest * 10)) + "m";
+                graphics.drawText(rowWidth - 5 - graphics.textWidth(gap, this.font12white), y + 15, gap, this.font12white, "#FF9090");
+            }
+            graphics.alpha(1);
+        });
+    }
+
+    // draw the gallery of achievements over the lobby, the ones the local
+    // player has unlocked are shown in gold
+    drawAchievements(): void {
+        graphics.fillRect(0, 0, graphics.width(), graphics.height(), "rgba(0,0,0,0.85)");
+        const title = "Achievements";
+        graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(title, this.font30white)) / 2), 45, title, this.font30white);
+
+        Object.entries(achievements).forEach(([id, achievement], index) => {
+            const y = 70 + (index * ACHIEVEMENT_ROW_HEIGHT);
+            const unlocked = this.unlockedAchievements.includes(id);
+            graphics.fillRect(10, y, graphics.width() - 20, ACHIEVEMENT_ROW_HEIGHT - 5, unlocked ? "rgba(255,215,0,0.3)" : "rgba(255,255,255,0.1)");
+            graphics.drawText(20, y + 16, achievement.name, this.font16white, unlocked ? "#FFD700" : "grey");
+            graphics.drawText(20, y + 31, achievement.description, this.font12white, unlocked ? "white" : "grey");
+        });
+
+        const close = "Tap to close";
+        graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(close, this.font12white)) / 2), graphics.height() - 20, close, this.font12white);
+    }
+
+    // the rows of the controls menu, each is changed by tapping it
+    controlsMenu(): { label: string, press: () => void }[] {
+        const input = this.input;
+        const keyboard = input.keyboard;
+        const tilt = input.tiltInput;
+        const layouts = Object.keys(TOUCH_LAYOUTS);
+        const keysLabel = (direction: "left" | "right") => keyboard.capturing === direction ? "Press a key..." : keyboard.bindings[direction].join(", ");
+
+        return [
+            { label: "Touch Zones: " + input.touch.layout, press: () => input.touch.layout = layouts[(layouts.indexOf(input.touch.layout) + 1) % layouts.length] },
+            {
+                label: "Tilt Steering: " + (tilt.enabled ? "On" : tilt.available ? "Off" : "Not Available"),
+                // turning tilt on calibrates it to how the device is held
+                press: () => {
+                    if (tilt.enabled) {
+                        tilt.enabled = false;
+                    } else {
+                        tilt.enable();
+                    }
+                },
+            },
+            { label: "Calibrate Tilt (hold level and tap)", press: () => tilt.calibrate() },
+            { label: "Left Keys: " + keysLabel("left"), press: () => keyboard.capturing = "left" },
+            { label: "Right Keys: " + keysLabel("right"), press: () => keyboard.capturing = "right" },
+            { label: "Reset Keys", press: () => keyboard.reset() },
+            { label: "Combine: " + (input.mode === "latest" ? "Last Input Wins" : "Touch > Keys > Pad > Tilt"), press: () => input.mode = input.mode === "latest" ? "priority" : "latest" },
+            { label: "Done", press: () => this.showControls = false },
+        ];
+    }
+
+    // draw the controls menu over the lobby
+    drawControlsMenu(): void {
+        graphics.fillRect(0, 0, graphics.width(), graphics.height(), "rgba(0,0,0,0.85)");
+        const title = "Controls";
+        graphics.drawText(Math.floor((graphics.width() - graphics.textWidth(title, this.font30white)) / 2), 45, title, this.font30white);
+
+        this.controlsMenu().forEach((item, index) => {
+            const y = 70 + (index * ACHIEVEMENT_ROW_HEIGHT);
+            graphics.fillRect(10, y, graphics.width() - 20, ACHIEVEMENT_ROW_HEIGHT - 5, "rgba(255,255,255,0.1)");
+            graphics.drawText(20, y + 23, item.label, this.font16white);
+        });
+    }
+
+    // draw the table of everyone's stats for the round, ranked with the
+    // winner first and then by height
+    drawResults(top: number): void {
+        if (!this.game) {
+            return;
+        }
+        const winnerId = this.game.winner;
+        const ranked = [...this.game.jumpers].sort((a, b) => (a.id === winnerId ? -1 : b.id === winnerId ? 1 : b.highest - a.highest));
+        const cols = ["rgba(0,0,0,0.7)", "rgba(10,10,10,0.7)"];
+
+        graphics.fillRect(0, top, graphics.width(), RESULTS_ROW_HEIGHT, cols[0]);
+        for (const [heading, at] of RESULTS_COLUMNS) {
+            graphics.drawText(Math.floor((graphics.width() * at) - (graphics.textWidth(heading, this.font12white) / 2)), top + 14, heading, this.font12white);
+        }
+
+        ranked.forEach((jumper, index) => {
+            const y = top + ((index + 1) * RESULTS_ROW_HEIGHT);
+            const seconds = Math.floor(jumper.survived / 1000);
+            const values = [
+                Math.floor(jumper.highest * 10) + "m",
+                "" + jumper.bounces,
+                "" + jumper.springs,
+                "" + jumper.platformsBroken,
+                Math.floor(seconds / 60) + ":" + (seconds % 60 < 10 ? "0" : "") + (seconds % 60),
+                jumper.deathCause ? DEATH_CAUSE_LABELS[jumper.deathCause] : "Alive",
+            ];
+
+            graphics.fillRect(0, y, graphics.width(), RESULTS_ROW_HEIGHT, cols[(index + 1) % 2]);
+            graphics.drawText(5, y + 14, (index + 1) + ". " + this.displayName(jumper.id), this.font12white, this.teamColor(jumper));
+            values.forEach((value, column) => {
+                graphics.drawText(Math.floor((graphics.width() * RESULTS_COLUMNS[column][1]) - (graphics.textWidth(value, this.font12white) / 2)), y + 14, value, this.font12white);
+            });
+        });
+    }
+
+    // sample the local player's position for their ghost, any samples missed
+    // between updates are filled with the current position
+    recordGhost(): void {
+        const jumper = this.game?.jumpers.find(j => j.id === this.localPlayerId);
+        if (!this.game?.jumping || !jumper || jumper.dead) {
+            return;
+        }
+
+        const index = Math.floor((this.gameTime() - this.game.startAt) / ghostInterval);
+        while (this.ghostRecording.length <= index && this.ghostRecording.length < maxGhostSamples) {
+            this.ghostRecording.push([jumper.x, jumper.y]);
+        }
+    }
+
+    // the local player's round is over, if they got higher than their
+    // ghost then the path they took becomes the new one
+    saveGhost(): void {
+        const jumper = this.game?.jumpers.find(j => j.id === this.localPlayerId);
+        if (jumper && this.ghostRecording.length > 1 && jumper.highest > (this.ghost?.height ?? 0)) {
+            const ghost = packGhost(this.ghostRecording, jumper.highest);
+            // actions can't be applied from within the update callback
+            setTimeout(() => Rune.actions.saveGhost({ ghost }), 1);
+        }
+        this.ghostRecording = [];
+    }
+
+    // the colour to tint a jumper's name and arrow with, only
+    // in team mode
+    teamColor(jumper: Jumper): string | undefined {
+        return this.game?.settings.teams ? teams[jumper.team].color : undefined;
+    }
+
+    // the font to draw a jumper's name tag in, coloured by
+    // their team in team mode
+    nameFont(jumper: Jumper): graphics.GameFont {
+        return this.game?.settings.teams ? this.font16teams[jumper.team] : this.font16white;
+    }
+
+    // the name of a player, players that have left the room
+    // (e.g. in a replay) don't have their details any more
+    displayName(playerId: string): string {
+        return this.players?.[playerId]?.displayName ?? "Player";
+    }
+
+    // draw the bar of controls at the bottom of the screen while watching
+    // a replay: play/pause, speed, a scrub bar and exit
+    drawReplayControls(player: ReplayPlayer): void {
+        const top = graphics.height() - REPLAY_BAR_HEIGHT;
+        const buttonWidth = Math.floor(graphics.width() * 0.15);
+        graphics.fillRect(0, top, graphics.width(), REPLAY_BAR_HEIGHT, "rgba(0,0,0,0.7)");
+
+        const buttons = [player.playing ? "Pause" : "Play", player.speed + "x"];
+        buttons.forEach((label, index) => {
+            graphics.drawText((index * buttonWidth) + Math.floor((buttonWidth - graphics.textWidth(label, this.font16white)) / 2), top + 31, label, this.font16white);
+        });
+        graphics.drawText(graphics.width() - buttonWidth + Math.floor((buttonWidth - graphics.textWidth("Exit", this.font16white)) / 2), top + 31, "Exit", this.font16white);
+
+        // the scrub bar fills the space in the middle
+        const barX = buttonWidth * 2;
+        const barWidth = graphics.width() - (buttonWidth * 3);
+        const progress = player.replay.length > 0 ? player.tick / player.replay.length : 0;
+        graphics.fillRect(barX, top + 30, barWidth, 6, "rgba(255,255,255,0.3)");
+        graphics.fillRect(barX, top + 30, Math.floor(barWidth * progress), 6, "white");
+        graphics.fillRect(barX + Math.floor(barWidth * progress) - 3, top + 24, 6, 18, "white");
+
+        const time = this.formatTicks(player.tick) + " / " + this.formatTicks(player.replay.length);
+        graphics.drawText(barX + Math.floor((barWidth - graphics.textWidth(time, this.font12white)) / 2), top + 16, time, this.font12white);
+    }
+
+    // format a number of update ticks as minutes and seconds
+    formatTicks(ticks: number): string {
+        const seconds = Math.floor(ticks / 20);
+        const secs = seconds % 60;
+
+        return Math.floor(seconds / 60) + ":" + (secs < 10 ? "0" : "") + secs;
+    }
+
+    // handle a press on the replay controls, returns true if the press
+    // was on the bar
+    replayControlsPressed(x: number, y: number, dragging: boolean): boolean {
+        const player = this.replayPlayer;
+        if (!player || y < graphics.height() - REPLAY_BAR_HEIGHT) {
+            return false;
+        }
+
+        const buttonWidth = Math.floor(graphics.width() * 0.15);
+        const barX = buttonWidth * 2;
+        const barWidth = graphics.width() - (buttonWidth * 3);
+        if (x >= barX && x < barX + barWidth) {
+            // scrubbing works while dragging too
+            player.seek(((x - barX) / barWidth) * player.replay.length);
+            this.interpolators = {};
+        } else if (!dragging) {
+            if (x < buttonWidth) {
+                player.playing = !player.playing;
+            } else if (x < buttonWidth * 2) {
+                player.nextSpeed();
+            } else {
+                this.stopReplay();
+            }
+            sound.playSound(this.sfxClick);
+        }
+
+        return true;
+    }
+
+    // start watching a replay
+    startReplay(replay: Replay): void {
+        this.replayPlayer = new ReplayPlayer(replay);
+        this.interpolators = {};
+        this.particles.clear();
+    }
+
+    // stop watching the replay and go back to the live game
+    stopReplay(): void {
+        this.replayPlayer = undefined;
+        this.game = this.liveGame;
+        this.interpolators = {};
+        this.particles.clear();
+    }
+
+    // save a replay as a JSON file, the player names are included since the
+    // players may not be around when it's watched
+    exportReplay(replay: Replay): void {
+        const names: Record<string, string> = {};
+        for (const id of replay.roster) {
+            names[id] = this.displayName(id);
+        }
+
+        const blob = new Blob([JSON.stringify({ ...replay, names })], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = "boingboing-replay-" + replay.seed + ".json";
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    // draw a power up as a coloured block with its letter on, centered
+    // on the given screen position
+    drawPowerUp(type: PowerUpType, x: number, y: number, size: number): void {
+        const definition = powerUpTypes[type];
+        graphics.fillRect(x - Math.floor(size / 2) - 2, y - Math.floor(size / 2) - 2, size + 4, size + 4, "white");
+        graphics.fillRect(x - Math.floor(size / 2), y - Math.floor(size / 2), size, size, definition.color);
+        graphics.drawText(x - Math.floor(graphics.textWidth(definition.letter, this.font16white) / 2), y + 6, definition.letter, this.font16white);
+    }
+
     // using the animation ticker we'll make the instructions hands appear
     // in four states, left up/down and right up/down and repeat 
     // to show the player how to play
@@ -702,6 +1594,39 @@ export class BoingBoing implements graphics.Game {
         }
     }
 
+    // the room settings that can be changed in the lobby
+    lobbyOptions(): LobbyOption[] {
+        if (!this.game) {
+            return [];
+        }
+        const settings = this.game.settings;
+        const profile = difficultyProfiles[settings.difficulty];
+
+        const mode = gameModes[settings.mode];
+        // the host cycles through the themes their client found, then random
+        const themeNames = this.themes.map(theme => theme.name);
+
+        return [
+            { label: mode.label, color: mode.color, next: { mode: nextGameMode(settings.mode) } },
+            { label: "Difficulty: " + profile.label, color: profile.color, next: { difficulty: nextDifficulty(settings.difficulty) } },
+            { label: "Collisions: " + (settings.pvp ? "On" : "Off"), color: "white", next: { pvp: !settings.pvp } },
+            { label: "Teams: " + (settings.teams ? "On" : "Off"), color: "white", next: { teams: !settings.teams } },
+            { label: "Round: " + (settings.roundLength / 60000) + " min", color: "white", next: { roundLength: nextRoundLength(settings.roundLength) } },
+            { label: "Wrap Around: " + (settings.wrap ? "On" : "Off"), color: "white", next: { wrap: !settings.wrap } },
+            { label: "Theme: " + (settings.theme === randomTheme ? "Random" : settings.theme), color: "white", next: { theme: themeNames[themeNames.indexOf(settings.theme) + 1] ?? randomTheme } },
+        ];
+    }
+
+    // the number of rows the room settings take up
+    lobbyOptionRows(): number {
+        return Math.ceil(this.lobbyOptions().length / LOBBY_OPTION_COLUMNS);
+    }
+
+    // true if the local player is the host and can change the room settings
+    isHost(): boolean {
+        return !!this.game && this.game.lobby.host === this.localPlayerId;
+    }
+
     waitingToJoin(): boolean {
         return !this.game?.jumpers.find(j => j.id === this.localPlayerId);
     }
@@ -710,88 +1635,240 @@ export class BoingBoing implements graphics.Game {
         return this.waitingForPlayers() || !this.game?.jumping;
     }
 
+    // true until everyone that has joined is ready and
+    // the countdown has begun
     waitingForPlayers(): boolean {
         if (!this.players) {
             return true;
         }
 
-        return this.game?.jumpers.length !== Object.values(this.players).length;
+        return this.game?.startAt === -1;
+    }
+
+    // the area of the screen the ready button covers while
+    // waiting in the lobby
+    readyButtonBounds(): { x: number, y: number, width: number, height: number } {
+        const width = Math.floor(graphics.width() * 0.75);
+
+        return { x: Math.floor((graphics.width() - width) / 2), y: Math.floor(graphics.height() / 2), width, height: LOBBY_OPTION_HEIGHT };
+    }
+
+    // the top of the room settings shown under the ready button
+    // once the local player has joined
+    joinedOptionsY(): number {
+        const button = this.readyButtonBounds();
+
+        return button.y + button.height + 10;
+    }
+
+    // the area of the screen the start button on the character
+    // select screen covers
+    startButtonBounds(): { x: number, y: number, width: number, height: number } {
+        const width = Math.floor(graphics.width() / 5);
+        const height = Math.floor((width / this.startButton.width) * this.startButton.height);
+
+        return { x: Math.floor((graphics.width() - width) / 2), y: graphics.height() - (height * 1.2) - 110, width, height };
+    }
+
+    // render the room settings in columns starting at the given position, tapping
+    // one cycles through the choices. Only the host can change them so everyone
+    // else sees them faded out
+    drawLobbyOptions(x: number, y: number, halfWidth: number): void {
+        graphics.alpha(this.isHost() ? 1 : 0.5);
+        this.lobbyOptions().forEach((option, index) => {
+            const optionX = x + ((index % LOBBY_OPTION_COLUMNS) * (halfWidth + 5));
+            const optionY = y + (Math.floor(index / LOBBY_OPTION_COLUMNS) * LOBBY_OPTION_HEIGHT);
+            graphics.fillRect(optionX, optionY, halfWidth, LOBBY_OPTION_HEIGHT - 5, "rgba(0,0,0,0.5)");
+            graphics.drawText(optionX + Math.floor((halfWidth - graphics.textWidth(option.label, this.font12white)) / 2), optionY + 19, option.label, this.font12white, option.color);
+        });
+        graphics.alpha(1);
+    }
+
+    // the room setting under a press given the top of the settings, the left
+    // half of the screen is the first column and the right half the second
+    lobbyOptionAt(x: number, y: number, optionsY: number): LobbyOption | undefined {
+        if (y < optionsY || y > optionsY + (this.lobbyOptionRows() * LOBBY_OPTION_HEIGHT)) {
+            return undefined;
+        }
+        const column = x < graphics.width() / 2 ? 0 : 1;
+
+        return this.lobbyOptions()[(Math.floor((y - optionsY) / LOBBY_OPTION_HEIGHT) * LOBBY_OPTION_COLUMNS) + column];
+    }
+
+    // change a room setting if the local player is the host and
+    // the game hasn't started counting down
+    pressLobbyOption(option: LobbyOption): void {
+        if (this.game && this.game.startAt === -1 && this.isHost()) {
+            Rune.actions.changeSettings({ settings: option.next });
+            sound.playSound(this.sfxClick);
+        }
     }
 
     mouseDown(x: number, y: number): void {
+        // while watching a replay the screen is just for the replay controls
+        if (this.replayPlayer) {
+            this.replayControlsPressed(x, y, false);
+            return;
+        }
+
+        // spectators tap the left or right of the screen to
+        // change who they're watching
+        if (this.spectating()) {
+            this.cycleSpectateTarget(x < graphics.width() / 2 ? -1 : 1);
+            return;
+        }
+
         if (this.waitingToJoin()) {
             // if we're in the character select screen then
             // consider if they've clicked on a character or the start button
-            const boxWidth = Math.floor(graphics.width() / 4);
+            const boxWidth = Math.floor((graphics.width() * 0.75) / CHARACTER_COLUMNS);
             const boxHeight = Math.floor((boxWidth / this.box.width) * this.box.height);
-            const startWidth = Math.floor(graphics.width() / 3);
-            const startHeight = Math.floor((startWidth / this.startButton.width) * this.startButton.height);
-            if (y > graphics.height() - (startHeight * 1.2) - 110) {
-                // start button
-                Rune.actions.join({ type: this.selectedType });
+            const start = this.startButtonBounds();
+            const optionsY = 50 + (Math.ceil(characters.length / CHARACTER_COLUMNS) * boxHeight);
+            const option = this.lobbyOptionAt(x, y, optionsY);
+            // the team and replay rows follow the settings when they're shown
+            const teamsY = optionsY + (this.lobbyOptionRows() * LOBBY_OPTION_HEIGHT);
+            const achievementsY = teamsY + (this.game?.settings.teams ? LOBBY_OPTION_HEIGHT : 0);
+            const replayY = achievementsY + LOBBY_OPTION_HEIGHT;
+            if (this.showAchievements) {
+                // any tap closes the gallery
+                this.showAchievements = false;
+                sound.playSound(this.sfxClick);
+            } else if (this.showControls) {
+                const item = this.controlsMenu()[Math.floor((y - 70) / ACHIEVEMENT_ROW_HEIGHT)];
+                if (item) {
+                    item.press();
+                    this.input.save();
+                    sound.playSound(this.sfxClick);
+                }
+            } else if (this.game?.settings.teams && y > teamsY && y < teamsY + LOBBY_OPTION_HEIGHT) {
+                // team selection, left half is the first team and right half the second
+                this.selectedTeam = x < graphics.width() / 2 ? 0 : 1;
+                sound.playSound(this.sfxClick);
+            } else if (y > achievementsY && y < achievementsY + LOBBY_OPTION_HEIGHT) {
+                // left half is the achievements and right half the controls
+                if (x < graphics.width() / 2) {
+                    this.showAchievements = true;
+                } else {
+                    this.showControls = true;
+                }
+                sound.playSound(this.sfxClick);
+            } else if (this.lastReplay && y > replayY && y < replayY + LOBBY_OPTION_HEIGHT) {
+                // the replay of the last round, left half watches and right half exports
+                if (x < graphics.width() / 2) {
+                    this.startReplay(this.lastReplay);
+                } else {
+                    this.exportReplay(this.lastReplay);
+                }
+                sound.playSound(this.sfxClick);
+            } else if (option) {
+                // room settings, can only be changed by the host before
+                // the game starts counting down
+                this.pressLobbyOption(option);
+            } else if (x > start.x && x < start.x + start.width && y > start.y && y < start.y + start.height) {
+                // start button, checked after the rows above so a press
+                // near it doesn't join by mistake
+                Rune.actions.join({ type: this.selectedType, team: this.selectedTeam });
                 sound.playSound(this.sfxClick);
             } else {
+                // only characters that have been unlocked can be picked
                 const xp = Math.floor((x - Math.floor(graphics.width() * 0.125)) / boxWidth);
                 const yp = Math.floor((y - 50) / boxHeight);
-                if (xp >= 0 && xp < 3 && (yp >= 0) && (yp < 3)) {
-                    this.selectedType = xp + (yp * 3);
+                const type = xp + (yp * CHARACTER_COLUMNS);
+                if (xp >= 0 && xp < CHARACTER_COLUMNS && yp >= 0 && characterUnlocked(type, levelForXp(this.stats?.xp ?? 0))) {
+                    this.selectedType = type;
                     sound.playSound(this.sfxClick);
                 }
             }
+        } else if (this.game && this.game.startAt === -1) {
+            // joined and waiting for the others, the ready button toggles
+            // whether we're ready and the host can still change the settings
+            const button = this.readyButtonBounds();
+            const option = this.lobbyOptionAt(x, y, this.joinedOptionsY());
+            if (this.localPlayerId && y > button.y && y < button.y + button.height) {
+                Rune.actions.ready({ ready: !this.game.lobby.ready.includes(this.localPlayerId) });
+                sound.playSound(this.sfxClick);
+            } else if (option) {
+                this.pressLobbyOption(option);
+            }
         } else {
             // otherwise consider the press for movement
-            if (!gameOver(this.game)) {
+            if (!gameOver(this.game, this.gameTime())) {
                 this.considerTouch(x);
             }
         }
     }
 
-    mouseDrag(x: number): void {
+    mouseDrag(x: number, y: number): void {
+        // dragging along the scrub bar of a replay moves through it
+        if (this.replayPlayer) {
+            this.replayControlsPressed(x, y, true);
+            return;
+        }
+
         // if we're in game consider the movement still pressing the screen
         // for movement
-        if (!gameOver(this.game) && !this.waitingToJoin()) {
+        if (!gameOver(this.game, this.gameTime()) && !this.waitingToJoin()) {
             this.considerTouch(x);
         }
     }
 
     mouseUp(): void {
-        // clear the controls
-        this.controls.left = false;
-        this.controls.right = false;
+        // clear the touch controls
+        this.input.touch.release();
     }
 
     considerTouch(x: number): void {
-        // consider any touches on the left hand side of the screen
-        // to be moving left and right hand side of the screen to be 
-        // moving right
-        if (x < graphics.width() / 2) {
-            this.controls.left = true;
-            this.controls.right = false;
-        } else {
-            this.controls.left = false;
-            this.controls.right = true;
-        }
+        // the touch zones decide which way a touch across
+        // the screen steers
+        this.input.touch.press(x / graphics.width());
     }
 
     keyDown(key: string): void {
-        // keyboard controls are useful for
-        // debugging play
-        if (key === "ArrowLeft") {
-            this.controls.left = true;
+        // when rebinding keys the next key pressed is the new one
+        if (this.input.keyboard.capturing) {
+            this.input.keyboard.keyDown(key);
+            this.input.save();
+            return;
         }
-        if (key === "ArrowRight") {
-            this.controls.right = true;
+
+        // when watching a replay the keys control playback, space
+        // pauses, the arrows skip and escape goes back to the game
+        const player = this.replayPlayer;
+        if (player) {
+            if (key === " ") {
+                player.playing = !player.playing;
+            }
+            if (key === "ArrowLeft") {
+                player.seek(player.tick - REPLAY_SKIP_TICKS);
+                this.interpolators = {};
+            }
+            if (key === "ArrowRight") {
+                player.seek(player.tick + REPLAY_SKIP_TICKS);
+                this.interpolators = {};
+            }
+            if (key === "Escape") {
+                this.stopReplay();
+            }
+            return;
         }
+
+        // spectators use the arrows to change who they're watching
+        if (this.spectating()) {
+            if (key === "ArrowLeft") {
+                this.cycleSpectateTarget(-1);
+            }
+            if (key === "ArrowRight") {
+                this.cycleSpectateTarget(1);
+            }
+            return;
+        }
+
+        // otherwise the keys steer, using the bound keys
+        this.input.keyboard.keyDown(key);
     }
 
     keyUp(key: string): void {
-        // keyboard controls are useful for
-        // debugging play
-        if (key === "ArrowLeft") {
-            this.controls.left = false;
-        }
-        if (key === "ArrowRight") {
-            this.controls.right = false;
-        }
+        this.input.keyboard.keyUp(key);
     }
 }
@@ -0,0 +1,357 @@
+import { Controls } from "./logic";
+
+// The directions a player can steer in, matching the fields of Controls
+export type Direction = "left" | "right";
+
+// The ways the controls from several sources are combined
+//
+// latest   - the source that changed most recently wins
+// priority - the first source in the list that's pressing anything wins
+export type InputCombineMode = "latest" | "priority";
+
+// A source of controls such as the keyboard or a gamepad. Sources are
+// polled every frame and the manager decides which one to use
+export interface InputSource {
+    // the name shown in the controls menu
+    readonly name: string;
+    // the controls the source is currently asking for
+    read(): Controls;
+}
+
+// A way of steering with touches. Either the screen is split into zones
+// that steer fully one way, or the player drags from where they first
+// touched and the distance decides how hard they steer
+export interface TouchLayout {
+    // the part of the screen width that steers in each direction
+    zones?: Record<Direction, [number, number]>;
+    // the distance as a fraction of the screen width dragged for full steering
+    dragRange?: number;
+}
+
+// The touch layouts the player can pick from
+export const TOUCH_LAYOUTS: Record<string, TouchLayout> = {
+    Halves: { zones: { left: [0, 0.5], right: [0.5, 1] } },
+    Edges: { zones: { left: [0, 0.3], right: [0.7, 1] } },
+    Drag: { dragRange: 0.15 },
+};
+
+// The keys used for each direction until the player changes them
+const DEFAULT_KEY_BINDINGS: Record<Direction, string[]> = {
+    left: ["ArrowLeft", "a"],
+    right: ["ArrowRight", "d"],
+};
+
+// How far a gamepad stick has to be pushed before it counts
+const GAMEPAD_DEADZONE = 0.3;
+// The buttons of the d-pad in the standard gamepad layout
+const GAMEPAD_DPAD: Record<Direction, number> = { left: 14, right: 15 };
+
+// How far in degrees the device has to be tilted from the
+// calibrated position before it steers
+const TILT_THRESHOLD = 5;
+// How far in degrees the device has to be tilted for full steering
+const TILT_RANGE = 30;
+
+// The key the player's input preferences are kept under in local storage
+const STORAGE_KEY = "boingboing.input";
+
+// Nothing pressed
+function released(): Controls {
+    return { left: false, right: false, axis: 0 };
+}
+
+// The controls for steering with an analog axis, left and right
+// are pressed when it's pushed either way
+function fromAxis(axis: number): Controls {
+    axis = Math.max(-1, Math.min(1, axis));
+
+    return { left: axis < 0, right: axis > 0, axis };
+}
+
+// Scale an axis so anything inside the dead zone is nothing and the
+// rest of the range runs smoothly up to full
+function applyDeadzone(axis: number, deadzone: number): number {
+    if (Math.abs(axis) < deadzone) {
+        return 0;
+    }
+
+    return Math.sign(axis) * (Math.abs(axis) - deadzone) / (1 - deadzone);
+}
+
+// Touching the screen steers using the picked layout, either towards the
+// zone that's touched or as far as the touch has been dragged
+export class TouchInput implements InputSource {
+    readonly name = "Touch";
+    // the name of the layout in TOUCH_LAYOUTS being used
+    layout = "Halves";
+    // where the current touch started and where it is now as fractions
+    // of the screen width, or null if the screen isn't being touched
+    startX: number | null = null;
+    x: number | null = null;
+
+    // a touch at a position across the screen as a fraction of its width,
+    // called when the touch starts and as it's dragged
+    press(x: number): void {
+        if (this.startX === null) {
+            this.startX = x;
+        }
+        this.x = x;
+    }
+
+    // every touch has been lifted
+    release(): void {
+        this.startX = null;
+        this.x = null;
+    }
+
+    read(): Controls {
+        const layout = TOUCH_LAYOUTS[this.layout];
+        if (this.x === null || this.startX === null) {
+            return released();
+        }
+        if (layout.dragRange) {
+            return fromAxis((this.x - this.startX) / layout.dragRange);
+        }
+
+        for (const direction of ["left", "right"] as Direction[]) {
+            const [from, to] = layout.zones?.[direction] ?? [0, 0];
+            if (this.x >= from && this.x < to) {
+                return fromAxis(direction === "left" ? -1 : 1);
+            }
+        }
+
+        return released();
+    }
+}
+
+// The keyboard, with keys that can be rebound for each direction
+export class KeyboardInput implements InputSource {
+    readonly name = "Keyboard";
+    // the keys bound to each direction
+    bindings: Record<Direction, string[]> = { left: [...DEFAULT_KEY_BINDINGS.left], right: [...DEFAULT_KEY_BINDINGS.right] };
+    // the keys being held down
+    held = new Set<string>();
+    // the direction waiting for the next key press to be bound
+    // to it, or null if we're not rebinding
+    capturing: Direction | null = null;
+
+    // letters are bound whatever the state of shift or caps lock
+    normalize(key: string): string {
+        return key.length === 1 ? key.toLowerCase() : key;
+    }
+
+    // a key was pressed, returns true if it was used for steering or rebinding
+    keyDown(key: string): boolean {
+        key = this.normalize(key);
+        if (this.capturing) {
+            // the new key replaces the old ones, and can't be
+            // used for both directions at once
+            const other: Direction = this.capturing === "left" ? "right" : "left";
+            this.bindings[other] = this.bindings[other].filter(k => k !== key);
+            this.bindings[this.capturing] = [key];
+            this.capturing = null;
+            this.held.clear();
+            return true;
+        }
+        if (!this.bindings.left.includes(key) && !this.bindings.right.includes(key)) {
+            return false;
+        }
+
+        this.held.add(key);
+        return true;
+    }
+
+    // a key was released
+    keyUp(key: string): void {
+        this.held.delete(this.normalize(key));
+    }
+
+    // go back to the default keys
+    reset(): void {
+        this.bindings = { left: [...DEFAULT_KEY_BINDINGS.left], right: [...DEFAULT_KEY_BINDINGS.right] };
+        this.held.clear();
+    }
+
+    read(): Controls {
+        const left = this.bindings.left.some(key => this.held.has(key));
+        const right = this.bindings.right.some(key => this.held.has(key));
+
+        return { left, right, axis: (right ? 1 : 0) - (left ? 1 : 0) };
+    }
+}
+
+// Any connected gamepad, steering with the left stick or the d-pad. The
+// d-pad always steers fully, the stick steers as far as it's pushed
+export class GamepadInput implements InputSource {
+    readonly name = "Gamepad";
+
+    read(): Controls {
+        if (!navigator.getGamepads) {
+            return released();
+        }
+
+        for (const pad of navigator.getGamepads()) {
+            if (!pad) {
+                continue;
+            }
+            if (pad.buttons[GAMEPAD_DPAD.left]?.pressed) {
+                return fromAxis(-1);
+            }
+            if (pad.buttons[GAMEPAD_DPAD.right]?.pressed) {
+                return fromAxis(1);
+            }
+            const axis = applyDeadzone(pad.axes[0] ?? 0, GAMEPAD_DEADZONE);
+            if (axis !== 0) {
+                return fromAxis(axis);
+            }
+        }
+
+        return released();
+    }
+}
+
+// Steering by tilting the device left and right. The position the device
+// is held in when it's calibrated is treated as level
+export class TiltInput implements InputSource {
+    readonly name = "Tilt";
+    // true if the player has turned tilt steering on
+    enabled = false;
+    // the latest left/right tilt of the device in degrees, or null
+    // if the device hasn't reported one
+    tilt: number | null = null;
+    // the tilt the device was at when it was calibrated
+    offset = 0;
+
+    constructor() {
+        window.addEventListener("deviceorientation", (event) => {
+            this.tilt = event.gamma;
+        });
+    }
+
+    // true if the device has reported its orientation so tilt can be used
+    get available(): boolean {
+        return this.tilt !== null;
+    }
+
+    // turn tilt steering on, some browsers need the player's permission
+    // first which can only be asked for while handling a tap
+    enable(): void {
+        const orientation = window.DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<string> } | undefined;
+        orientation?.requestPermission?.().catch(() => {
+            this.enabled = false;
+        });
+        this.enabled = true;
+        this.calibrate();
+    }
+
+    // treat the way the device is being held now as level
+    calibrate(): void {
+        this.offset = this.tilt ?? 0;
+    }
+
+    read(): Controls {
+        if (!this.enabled || this.tilt === null) {
+            return released();
+        }
+
+        // the further the device is tilted the harder it steers
+        return fromAxis(applyDeadzone((this.tilt - this.offset) / TILT_RANGE, TILT_THRESHOLD / TILT_RANGE));
+    }
+}
+
+// The preferences for the input that are kept between sessions
+interface InputPreferences {
+    bindings: Record<Direction, string[]>;
+    layout: string;
+    tilt: boolean;
+    offset: number;
+    mode: InputCombineMode;
+}
+
+// Combines all the input sources into the controls sent to the game
+export class InputManager {
+    touch = new TouchInput();
+    keyboard = new KeyboardInput();
+    gamepad = new GamepadInput();
+    tiltInput = new TiltInput();
+    // the sources in priority order, highest first
+    sources: InputSource[] = [this.touch, this.keyboard, this.gamepad, this.tiltInput];
+    // how the sources are combined
+    mode: InputCombineMode = "latest";
+    // the last controls read from each source and when they changed,
+    // indexed the same as the sources
+    lastRead: Controls[] = this.sources.map(released);
+    changedAt: number[] = this.sources.map(() => 0);
+    // the number of polls made, used to order changes
+    polls = 0;
+
+    constructor() {
+        this.load();
+    }
+
+    // read every source and work out the controls to use
+    poll(): Controls {
+        this.polls++;
+        let chosen = -1;
+
+        this.sources.forEach((source, index) => {
+            const controls = source.read();
+            const last = this.lastRead[index];
+            if (controls.left !== last.left || controls.right !== last.right || controls.axis !== last.axis) {
+                this.changedAt[index] = this.polls;
+            }
+            this.lastRead[index] = controls;
+
+            if (!controls.left && !controls.right && controls.axis === 0) {
+                return;
+            }
+            if (chosen === -1 || (this.mode === "latest" && this.changedAt[index] > this.changedAt[chosen])) {
+                chosen = index;
+            }
+        });
+
+        return chosen === -1 ? released() : { ...this.lastRead[chosen] };
+    }
+
+    // load the player's preferences, if they've saved any
+    load(): void {
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (!saved) {
+                return;
+            }
+            const prefs = JSON.parse(saved) as Partial<InputPreferences>;
+            if (prefs.bindings?.left && prefs.bindings?.right) {
+                this.keyboard.bindings = prefs.bindings;
+            }
+            // only the layouts themselves, not anything inherited like "constructor"
+            if (typeof prefs.layout === "string" && Object.prototype.hasOwnProperty.call(TOUCH_LAYOUTS, prefs.layout)) {
+                this.touch.layout = prefs.layout;
+            }
+            if (prefs.mode === "latest" || prefs.mode === "priority") {
+                this.mode = prefs.mode;
+            }
+            this.tiltInput.enabled = !!prefs.tilt;
+            this.tiltInput.offset = prefs.offset ?? 0;
+        } catch (e) {
+            // storage isn't available or the preferences are broken,
+            // either way we just use the defaults
+        }
+    }
+
+    // keep the player's preferences for next time
+    save(): void {
+        const prefs: InputPreferences = {
+            bindings: this.keyboard.bindings,
+            layout: this.touch.layout,
+            tilt: this.tiltInput.enabled,
+            offset: this.tiltInput.offset,
+            mode: this.mode,
+        };
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+        } catch (e) {
+            // not being able to save isn't worth interrupting the game for
+        }
+    }
+}
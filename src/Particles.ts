@@ -0,0 +1,112 @@
+import { graphics } from "toglib";
+
+// The most particles alive at once. Rendering only happens every other frame
+// on mobile so this keeps the cost of the effects well inside that budget
+const MAX_PARTICLES = 120;
+
+// A small square of colour thrown out by an effect. Positions are in game
+// coordinates so particles scroll with the rest of the world
+interface Particle {
+    // the position as factors of screen width and height
+    x: number;
+    y: number;
+    // the velocity per rendered frame
+    vx: number;
+    vy: number;
+    // the pull down per rendered frame, negative values float up
+    gravity: number;
+    // the size in pixels
+    size: number;
+    // the colour it's drawn in
+    color: string;
+    // the number of rendered frames left and the number it started with
+    life: number;
+    maxLife: number;
+}
+
+// How a burst of particles looks and moves
+export interface ParticleEffect {
+    // the number of particles in the burst
+    count: number;
+    // the colours picked from at random for each particle
+    colors: string[];
+    // the fastest a particle starts moving
+    speed: number;
+    // the direction particles are thrown in radians, and how far either
+    // side of it they can go. A spread of PI throws them all round
+    angle: number;
+    spread: number;
+    // the pull down on each particle every rendered frame
+    gravity: number;
+    // the range of particle sizes in pixels
+    size: [number, number];
+    // the number of rendered frames the particles last
+    life: number;
+}
+
+// The effects played in response to game events
+export const PARTICLE_EFFECTS: Record<string, ParticleEffect> = {
+    // a puff of dust from the jumper's feet
+    dust: { count: 6, colors: ["#FFFFFF", "#DDDDDD"], speed: 0.006, angle: Math.PI / 2, spread: Math.PI / 2.5, gravity: 0.0002, size: [3, 6], life: 12 },
+    // sparkles shooting up off a spring
+    sparkle: { count: 10, colors: ["#FFD700", "#FFFFFF", "#FFF380"], speed: 0.012, angle: Math.PI / 2, spread: Math.PI / 4, gravity: 0.0006, size: [2, 4], life: 18 },
+    // chunks breaking off a platform as it starts to fall
+    debris: { count: 8, colors: ["#8B5A2B", "#A0522D", "#5C3A1E"], speed: 0.008, angle: Math.PI / 2, spread: Math.PI / 2, gravity: 0.0012, size: [3, 7], life: 24 },
+    // everything flying out when a jumper dies
+    burst: { count: 24, colors: ["#FF5050", "#FFA040", "#FFFFFF"], speed: 0.02, angle: 0, spread: Math.PI, gravity: 0.0008, size: [3, 7], life: 26 },
+};
+
+// A lightweight particle system for the effects in the game world
+export class ParticleSystem {
+    // the particles currently alive
+    particles: Particle[] = [];
+
+    // throw out a burst of particles at a position in game coordinates. If
+    // there are too many alive already the oldest make way for the new ones
+    emit(x: number, y: number, effect: ParticleEffect): void {
+        for (let i = 0; i < effect.count; i++) {
+            const angle = effect.angle + ((Math.random() * 2) - 1) * effect.spread;
+            const speed = effect.speed * (0.4 + (Math.random() * 0.6));
+            this.particles.push({
+                x,
+                y,
+                // the screen is taller than it is wide so scale the horizontal
+                // speed to make bursts look round
+                vx: Math.cos(angle) * speed * (graphics.height() / graphics.width()),
+                vy: Math.sin(angle) * speed,
+                gravity: effect.gravity,
+                size: effect.size[0] + Math.floor(Math.random() * (effect.size[1] - effect.size[0] + 1)),
+                color: effect.colors[Math.floor(Math.random() * effect.colors.length)],
+                life: effect.life,
+                maxLife: effect.life,
+            });
+        }
+        if (this.particles.length > MAX_PARTICLES) {
+            this.particles.splice(0, this.particles.length - MAX_PARTICLES);
+        }
+    }
+
+    // move every particle on a rendered frame and draw it, fading it out
+    // as it reaches the end of its life. This has to be called in the
+    // scrolled world space so the particles line up with the jumpers
+    render(): void {
+        for (const particle of this.particles) {
+            particle.x += particle.vx;
+            particle.y += particle.vy;
+            particle.vy -= particle.gravity;
+            particle.life--;
+
+            const size = particle.size;
+            graphics.alpha(Math.max(0, particle.life / particle.maxLife));
+            graphics.fillRect(Math.floor(particle.x * graphics.width()) - Math.floor(size / 2), graphics.height() - Math.floor(particle.y * graphics.height()) - Math.floor(size / 2), size, size, particle.color);
+        }
+        graphics.alpha(1);
+
+        this.particles = this.particles.filter(p => p.life > 0);
+    }
+
+    // remove every particle, e.g. when jumping around in a replay
+    clear(): void {
+        this.particles = [];
+    }
+}
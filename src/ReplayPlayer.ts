@@ -0,0 +1,147 @@
+import { withGameTime } from "./headless";
+import { GameEvent, GameState, createJumper, startGame, updatesPerSecond } from "./logic";
+import { Replay, ReplayInput, unpackInput } from "./replay";
+import { Simulation, msPerTick } from "./simulation";
+
+// The speeds a replay can be played back at
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+// Plays back a recorded round by running the game logic again in a
+// headless simulation and feeding it the recorded actions tick by tick.
+// Supports pausing, scrubbing to any point and changing the speed.
+export class ReplayPlayer {
+    // The replay being played
+    replay: Replay;
+    // The controls changes from the replay unpacked ready to apply
+    inputs: ReplayInput[];
+    // The simulation running the logic for the replay
+    sim!: Simulation;
+    // The number of recorded ticks that have been played
+    tick = 0;
+    // True if the replay is playing, false if it's paused
+    playing = true;
+    // The speed multiplier the replay is played at
+    speed = 1;
+    // The time in ms of the last frame we advanced on
+    lastFrame = 0;
+    // The fraction of a tick carried over between frames
+    carried = 0;
+    // The index of the next join, leave, rejoin and input to apply - they're
+    // recorded in order so we can just walk through them
+    nextJoin = 0;
+    nextLeave = 0;
+    nextRejoin = 0;
+    nextInput = 0;
+
+    constructor(replay: Replay) {
+        this.replay = replay;
+        this.inputs = replay.inputs.map(value => unpackInput(value));
+        this.restart();
+    }
+
+    // The game state at the current point in the replay
+    get game(): GameState {
+        return this.sim.game;
+    }
+
+    // The game time at the current point in the replay
+    get time(): number {
+        return this.sim.time;
+    }
+
+    // True if we've reached the end of the recording
+    get finished(): boolean {
+        return this.tick >= this.replay.length;
+    }
+
+    // go back to the start of the replay, creating the level from the
+    // seed and settings that were recorded
+    restart(): void {
+        const replay = this.replay;
+        this.sim = new Simulation();
+        this.sim.allPlayerIds = replay.joins.filter(join => join[0] === 0).map(join => replay.roster[join[1]]);
+        // the first update runs at the time the recording started
+        this.sim.time = replay.startTime - msPerTick;
+        this.sim.game.tick = replay.startTick;
+        this.sim.game.settings = { ...replay.settings };
+        withGameTime(this.sim.time, () => startGame(this.sim.game, replay.seed));
+        this.sim.game.theme = replay.theme;
+        this.sim.game.themeRoll = replay.themeRoll;
+        // everyone in the recording was ready so the countdown
+        // starts on the first tick just as it did live
+        this.sim.game.lobby.ready = [...this.sim.allPlayerIds];
+        this.tick = 0;
+        this.carried = 0;
+        this.nextJoin = 0;
+        this.nextLeave = 0;
+        this.nextRejoin = 0;
+        this.nextInput = 0;
+    }
+
+    // apply the actions that were recorded for the current tick and
+    // then run the update loop, returning the events it fired
+    stepOnce(): GameEvent[] {
+        const replay = this.replay;
+        const game = this.sim.game;
+
+        while (this.nextJoin < replay.joins.length && replay.joins[this.nextJoin][0] === this.tick) {
+            const [, index, type, x, team] = replay.joins[this.nextJoin++];
+            game.jumpers.push(createJumper(replay.roster[index], type, x, team));
+        }
+        while (this.nextLeave < replay.leaves.length && replay.leaves[this.nextLeave][0] === this.tick) {
+            const [, index] = replay.leaves[this.nextLeave++];
+            this.sim.removePlayer(replay.roster[index]);
+        }
+        while (this.nextRejoin < replay.rejoins.length && replay.rejoins[this.nextRejoin][0] === this.tick) {
+            const [, index] = replay.rejoins[this.nextRejoin++];
+            this.sim.addPlayer(replay.roster[index]);
+        }
+        while (this.nextInput < this.inputs.length && this.inputs[this.nextInput].tick === this.tick) {
+            const input = this.inputs[this.nextInput++];
+            this.sim.controls(replay.roster[input.index], input.controls);
+        }
+
+        const events = this.sim.step();
+        this.tick++;
+
+        return events;
+    }
+
+    // move to a specific tick in the replay, returning the events fired on
+    // the way. We can only run the logic forwards so going backwards means
+    // starting again
+    seek(tick: number): GameEvent[] {
+        const events: GameEvent[] = [];
+        tick = Math.max(0, Math.min(this.replay.length, Math.floor(tick)));
+        if (tick < this.tick) {
+            this.restart();
+        }
+        while (this.tick < tick) {
+            events.push(...this.stepOnce());
+        }
+
+        return events;
+    }
+
+    // advance the replay based on the real time that has passed
+    // since the last frame, returning the events fired as it played
+    update(now: number): GameEvent[] {
+        const elapsed = this.lastFrame === 0 ? 0 : now - this.lastFrame;
+        this.lastFrame = now;
+
+        if (!this.playing || this.finished) {
+            return [];
+        }
+
+        this.carried += (elapsed / 1000) * updatesPerSecond * this.speed;
+        const ticks = Math.floor(this.carried);
+        this.carried -= ticks;
+
+        return this.seek(this.tick + ticks);
+    }
+
+    // move to the next playback speed, wrapping round to the slowest
+    nextSpeed(): void {
+        this.speed = REPLAY_SPEEDS[(REPLAY_SPEEDS.indexOf(this.speed) + 1) % REPLAY_SPEEDS.length];
+    }
+}
@@ -0,0 +1,156 @@
+import { graphics } from "toglib";
+
+// The manifests describing each theme, any theme.json in the assets is picked
+// up so adding a theme is just a matter of adding a folder with a manifest
+// and its images. The import.meta.glob is a vite thing.
+const THEME_MANIFESTS = import.meta.glob("./assets/**/theme.json", {
+    eager: true,
+    import: 'default',
+});
+
+// A layer of the background as described in a manifest
+export interface ThemeLayerManifest {
+    // the image for the layer, relative to the manifest
+    image: string;
+    // how fast the layer scrolls compared to the level, 0 keeps it still
+    // and 1 moves it with the platforms
+    scroll: number;
+}
+
+// The format of a theme.json file. Image and sound paths are relative
+// to the folder the manifest is in
+export interface ThemeManifest {
+    // the name the theme is picked by in the lobby, must be unique
+    name: string;
+    // the layers of the background, drawn back to front
+    layers: ThemeLayerManifest[];
+    // the images of the platforms and the ones that fall
+    platform: string;
+    brokenPlatform: string;
+    // the frames of animation to use in place of the standard
+    // sprite for each enemy type (bat | bird)
+    enemies?: Record<string, string[]>;
+    // the music track looped while the theme is shown
+    music?: string;
+}
+
+// A layer of the background loaded ready to draw
+export interface ThemeLayer {
+    image: graphics.GameImage;
+    scroll: number;
+}
+
+// A theme with all its images loaded
+export interface Theme {
+    name: string;
+    layers: ThemeLayer[];
+    platform: graphics.GameImage;
+    brokenPlatform: graphics.GameImage;
+    // the enemy sprites this theme overrides, keyed on enemy type
+    enemies: Record<string, graphics.GameImage[]>;
+    // the URL of the music track, if the theme has one
+    music?: string;
+}
+
+// Work out the asset path of a file referenced from a manifest
+function assetPath(manifestPath: string, relative: string): string {
+    const parts = manifestPath.split("/").slice(0, -1);
+    for (const part of relative.split("/")) {
+        if (part === "..") {
+            parts.pop();
+        } else if (part !== ".") {
+            parts.push(part);
+        }
+    }
+
+    return parts.join("/");
+}
+
+// The theme used when none of the manifests in the assets can be loaded, the
+// images are the ones the game has always shipped with so there's always
+// something to draw the level with
+const DEFAULT_THEME_PATH = "./assets/Background/01/theme.json";
+const DEFAULT_THEME: ThemeManifest = {
+    name: "Sunny",
+    layers: [
+        { image: "Layer1.png", scroll: 0 },
+        { image: "Layer2.png", scroll: 0.333 },
+        { image: "Layer3.png", scroll: 0.667 },
+    ],
+    platform: "../../OtherAssets/Platformer1.png",
+    brokenPlatform: "../../OtherAssets/Platformer1-broken.png",
+};
+
+// Check a manifest read from the assets has everything a theme needs in the
+// right shape, they're written by hand so nothing else has checked them
+function validManifest(manifest: unknown): manifest is ThemeManifest {
+    if (typeof manifest !== "object" || manifest === null) {
+        return false;
+    }
+    const { name, layers, platform, brokenPlatform, enemies, music } = manifest as Record<string, unknown>;
+    if (typeof name !== "string" || !name || typeof platform !== "string" || typeof brokenPlatform !== "string") {
+        return false;
+    }
+    if (!Array.isArray(layers) || !layers.every(layer => typeof layer?.image === "string" && typeof layer?.scroll === "number")) {
+        return false;
+    }
+    if (enemies !== undefined && (typeof enemies !== "object" || enemies === null ||
+        !Object.values(enemies).every(frames => Array.isArray(frames) && frames.length > 0 && frames.every(frame => typeof frame === "string")))) {
+        return false;
+    }
+
+    return music === undefined || typeof music === "string";
+}
+
+// Load the images of a theme given the path of its manifest
+function loadTheme(path: string, manifest: ThemeManifest, assets: Record<string, string>): Theme {
+    const load = (image: string) => graphics.loadImage(assets[assetPath(path, image)]);
+    const enemies: Record<string, graphics.GameImage[]> = {};
+    for (const type in manifest.enemies) {
+        enemies[type] = manifest.enemies[type].map(load);
+    }
+
+    return {
+        name: manifest.name,
+        layers: manifest.layers.map(layer => ({ image: load(layer.image), scroll: layer.scroll })),
+        platform: load(manifest.platform),
+        brokenPlatform: load(manifest.brokenPlatform),
+        enemies,
+        music: manifest.music ? assets[assetPath(path, manifest.music)] : undefined,
+    };
+}
+
+// Load every theme that has a manifest in the assets, given the map from asset
+// paths to URLs. The themes are ordered by the folder they're in. A theme with a
+// malformed manifest or that references images that don't exist is left out
+// rather than drawing nothing. There's always at least one theme, if none of
+// the manifests can be used the built in default is loaded instead
+export function loadThemes(assets: Record<string, string>): Theme[] {
+    const themes: Theme[] = [];
+
+    for (const path of Object.keys(THEME_MANIFESTS).sort()) {
+        const manifest = THEME_MANIFESTS[path];
+        if (!validManifest(manifest)) {
+            continue;
+        }
+        const enemyFrames = Object.values(manifest.enemies ?? {}).flat();
+        const images = [manifest.platform, manifest.brokenPlatform, ...manifest.layers.map(layer => layer.image), ...enemyFrames];
+        if (themes.some(theme => theme.name === manifest.name) || images.some(image => !assets[assetPath(path, image)])) {
+            continue;
+        }
+
+        themes.push(loadTheme(path, manifest, assets));
+    }
+
+    if (themes.length === 0) {
+        themes.push(loadTheme(DEFAULT_THEME_PATH, DEFAULT_THEME, assets));
+    }
+
+    return themes;
+}
+
+// Find the theme a round is drawn in. If the round has a theme name we know
+// that's used, otherwise the roll picks one so every client picks the same
+export function resolveTheme(themes: Theme[], name: string, roll: number): Theme {
+    return themes.find(theme => theme.name === name) ?? themes[Math.floor(roll * themes.length)] ?? themes[0];
+}
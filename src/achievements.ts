@@ -0,0 +1,113 @@
+import type { GameEvent, GameEventType, Jumper } from "./logic";
+
+// The name of a game event as used in achievement rules
+type EventName = `${GameEventType}`;
+
+// The per-round stats on a jumper that achievements can be based on
+type JumperStat = "bounces" | "springs" | "platformsBroken";
+
+// The rules an achievement can be earned by:
+//
+// streak - an event happens to the player a number of times within a time window
+// height - the player climbs to a height
+// stat   - the player reaches a value of one of their round stats
+// win    - the player wins the round, optionally keeping a stat under a limit
+export type AchievementRule =
+  | { kind: "streak", event: EventName, count: number, within: number }
+  | { kind: "height", height: number }
+  | { kind: "stat", stat: JumperStat, atLeast: number }
+  | { kind: "win", stat?: JumperStat, atMost?: number };
+
+// The definition of an achievement
+export interface AchievementDefinition {
+  // the name shown when it's unlocked and in the gallery
+  name: string;
+  // how to earn it
+  description: string;
+  // the rule that decides when it's earned
+  rule: AchievementRule;
+}
+
+// The achievements that can be earned, keyed on the ID stored in the
+// player's persisted data
+export const achievements: Record<string, AchievementDefinition> = {
+  springChain: {
+    name: "Boing Boing Boing",
+    description: "Hit 3 springs in 5 seconds",
+    rule: { kind: "streak", event: "spring", count: 3, within: 5000 },
+  },
+  springFree: {
+    name: "Spring Free",
+    description: "Win without touching a spring",
+    rule: { kind: "win", stat: "springs", atMost: 0 },
+  },
+  skyHigh: {
+    name: "Sky High",
+    description: "Reach 200m",
+    rule: { kind: "height", height: 20 },
+  },
+  stratosphere: {
+    name: "Stratosphere",
+    description: "Reach 500m",
+    rule: { kind: "height", height: 50 },
+  },
+  champion: {
+    name: "Champion",
+    description: "Win a round",
+    rule: { kind: "win" },
+  },
+  demolition: {
+    name: "Demolition",
+    description: "Break 10 platforms in a round",
+    rule: { kind: "stat", stat: "platformsBroken", atLeast: 10 },
+  },
+  stomper: {
+    name: "Stomper",
+    description: "Stomp 3 players in 10 seconds",
+    rule: { kind: "streak", event: "stomp", count: 3, within: 10000 },
+  },
+  closeCall: {
+    name: "Close Call",
+    description: "Survive a hit with a shield",
+    rule: { kind: "streak", event: "shieldBreak", count: 1, within: 0 },
+  },
+};
+
+// Record the events that happened to a jumper this update against the
+// streaks they're building and drop any that are too old to count
+export function trackStreaks(jumper: Jumper, events: GameEvent[]): void {
+  // the longest any event needs to be remembered for
+  const windows: Record<string, number> = {};
+  for (const definition of Object.values(achievements)) {
+    const rule = definition.rule;
+    if (rule.kind === "streak") {
+      windows[rule.event] = Math.max(windows[rule.event] ?? 0, rule.within);
+    }
+  }
+
+  for (const [name, within] of Object.entries(windows)) {
+    const times = (jumper.streaks[name] ?? []).filter(time => Rune.gameTime() - time <= within);
+    for (const event of events) {
+      if (event.type === name && event.playerId === jumper.id) {
+        times.push(Rune.gameTime());
+      }
+    }
+    jumper.streaks[name] = times;
+  }
+}
+
+// Check if a jumper has earned an achievement. Streaks need to have been
+// tracked for the update first
+export function achievementEarned(jumper: Jumper, events: GameEvent[], rule: AchievementRule): boolean {
+  switch (rule.kind) {
+    case "streak":
+      return (jumper.streaks[rule.event] ?? []).filter(time => Rune.gameTime() - time <= rule.within).length >= rule.count;
+    case "height":
+      return jumper.highest >= rule.height;
+    case "stat":
+      return jumper[rule.stat] >= rule.atLeast;
+    case "win":
+      return !!events.find(e => e.type === "win" && e.playerId === jumper.id) &&
+        (!rule.stat || jumper[rule.stat] <= (rule.atMost ?? 0));
+  }
+}
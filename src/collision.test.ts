@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { Simulation } from "./simulation";
+import { jumperFor, platformAt } from "./testing";
+import { GameEventType, Platform, defaultJumpPower } from "./logic";
+import { rowHeight } from "./level";
+
+// The speed a jumper falls at in these tests, fast enough to
+// cross several rows in a single update
+const fastFall = -0.3;
+
+// start a round for the players with nothing in the level but the given
+// platforms, then drop every jumper from the given height at high speed
+function fallOnto(playerIds: string[], platforms: Record<number, Platform>, fromRow: number): Simulation {
+  const sim = new Simulation(playerIds);
+  for (const playerId of playerIds) {
+    sim.join(playerId);
+    sim.ready(playerId);
+  }
+  expect(sim.stepUntil(game => game.jumping)).toBe(true);
+
+  sim.game.platforms = platforms;
+  sim.game.enemies = [];
+  sim.game.powerUps = [];
+  for (const jumper of sim.game.jumpers) {
+    jumper.y = fromRow * rowHeight;
+    jumper.highest = jumper.y;
+    jumper.vy = fastFall;
+  }
+
+  return sim;
+}
+
+describe("swept landing", () => {
+  it("lands on a platform in a row that was passed through in one update", () => {
+    const sim = fallOnto(["a"], { 10: platformAt(10) }, 14);
+    const events = sim.step();
+
+    const jumper = jumperFor(sim, "a");
+    expect(jumper.y).toBe(10 * rowHeight);
+    expect(jumper.vy).toBe(defaultJumpPower);
+    expect(events).toContainEqual({ type: GameEventType.BOUNCE, playerId: "a" });
+  });
+
+  it("lands every jumper that falls fast in the same update", () => {
+    const sim = fallOnto(["a", "b", "c"], { 10: platformAt(10) }, 14);
+    const events = sim.step();
+
+    for (const playerId of ["a", "b", "c"]) {
+      const jumper = jumperFor(sim, playerId);
+      expect(jumper.y).toBe(10 * rowHeight);
+      expect(jumper.vy).toBe(defaultJumpPower);
+      expect(jumper.dead).toBe(false);
+      expect(events).toContainEqual({ type: GameEventType.BOUNCE, playerId });
+    }
+  });
+
+  it("lands on the highest platform crossed", () => {
+    const sim = fallOnto(["a"], { 8: platformAt(8), 12: platformAt(12, true) }, 14);
+    const events = sim.step();
+
+    const jumper = jumperFor(sim, "a");
+    expect(jumper.y).toBe(12 * rowHeight);
+    expect(jumper.vy).toBe(defaultJumpPower * 1.5);
+    expect(events).toContainEqual({ type: GameEventType.SPRING, playerId: "a" });
+  });
+
+  it("falls past rows that have nothing to land on", () => {
+    const faller = { ...platformAt(11), falling: true };
+    const sim = fallOnto(["a"], { 11: faller }, 14);
+    sim.step();
+
+    expect(jumperFor(sim, "a").y).toBeLessThan(11 * rowHeight);
+  });
+});
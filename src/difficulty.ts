@@ -0,0 +1,116 @@
+// The names of the difficulty profiles that can be selected in the lobby
+export type DifficultyName = "casual" | "normal" | "brutal";
+
+// A curve that gives a value based on the row in the level. The value starts
+// at start and changes by perRow for each row until it reaches the limit
+export interface DifficultyCurve {
+  // the value at the bottom of the level
+  start: number;
+  // how much the value changes for each row climbed
+  perRow: number;
+  // the value will never go past this limit
+  limit: number;
+}
+
+// The settings that control how hard a level is to climb
+export interface DifficultyProfile {
+  // the name of the profile as stored in the game state
+  name: DifficultyName;
+  // the name of the profile shown to players
+  label: string;
+  // the colour the profile is shown in on the HUD
+  color: string;
+  // the chance of a row having a platform on it
+  platformDensity: DifficultyCurve;
+  // the chance of a platform having spikes
+  spike: DifficultyCurve;
+  // the chance of a platform falling when jumped on
+  faller: DifficultyCurve;
+  // the chance of a platform having a spring
+  spring: DifficultyCurve;
+  // the chance of a platform sliding from side to side
+  slider: DifficultyCurve;
+  // the chance of a platform vanishing shortly after being touched
+  vanisher: DifficultyCurve;
+  // the chance of a safe platform having a power up above it
+  powerUp: DifficultyCurve;
+  // how often enemies appear, 1 being an enemy every 2.5 screens on average
+  enemyFrequency: DifficultyCurve;
+  // the row above which spikes, falling and vanishing platforms start to appear
+  hazardStartRow: number;
+  // the row above which sliding platforms start to appear
+  sliderStartRow: number;
+}
+
+// The difficulty profiles in the order they're offered in the lobby
+export const difficultyProfiles: Record<DifficultyName, DifficultyProfile> = {
+  casual: {
+    name: "casual",
+    label: "Casual",
+    color: "#7CFC00",
+    platformDensity: { start: 1, perRow: -0.001, limit: 0.4 },
+    spike: { start: 0.05, perRow: 1 / 6000, limit: 0.2 },
+    faller: { start: 0.05, perRow: 1 / 6000, limit: 0.2 },
+    spring: { start: 0.12, perRow: 1 / 4000, limit: 0.35 },
+    slider: { start: 0.05, perRow: 1 / 5000, limit: 0.2 },
+    vanisher: { start: 0.02, perRow: 1 / 8000, limit: 0.1 },
+    powerUp: { start: 0.05, perRow: 0, limit: 0.05 },
+    enemyFrequency: { start: 0.6, perRow: 0, limit: 0.6 },
+    hazardStartRow: 60,
+    sliderStartRow: 40,
+  },
+  normal: {
+    name: "normal",
+    label: "Normal",
+    color: "white",
+    platformDensity: { start: 1, perRow: -0.002, limit: 0.2 },
+    spike: { start: 0.1, perRow: 1 / 3000, limit: 0.45 },
+    faller: { start: 0.1, perRow: 1 / 3000, limit: 0.45 },
+    spring: { start: 0.08, perRow: 1 / 5000, limit: 0.3 },
+    slider: { start: 0.05, perRow: 1 / 3000, limit: 0.3 },
+    vanisher: { start: 0.05, perRow: 1 / 4000, limit: 0.25 },
+    powerUp: { start: 0.03, perRow: 0, limit: 0.03 },
+    enemyFrequency: { start: 1, perRow: 0, limit: 1 },
+    hazardStartRow: 30,
+    sliderStartRow: 20,
+  },
+  brutal: {
+    name: "brutal",
+    label: "Brutal",
+    color: "#FF4500",
+    platformDensity: { start: 1, perRow: -0.003, limit: 0.15 },
+    spike: { start: 0.15, perRow: 1 / 2000, limit: 0.6 },
+    faller: { start: 0.15, perRow: 1 / 2000, limit: 0.6 },
+    spring: { start: 0.06, perRow: 1 / 8000, limit: 0.2 },
+    slider: { start: 0.1, perRow: 1 / 2000, limit: 0.4 },
+    vanisher: { start: 0.1, perRow: 1 / 2000, limit: 0.4 },
+    powerUp: { start: 0.02, perRow: 0, limit: 0.02 },
+    enemyFrequency: { start: 1.2, perRow: 0.001, limit: 2 },
+    hazardStartRow: 15,
+    sliderStartRow: 10,
+  },
+};
+
+// The difficulty used when nobody has picked one
+export const defaultDifficulty: DifficultyName = "normal";
+
+// Get the value of a curve at a given row
+export function curveAt(curve: DifficultyCurve, row: number): number {
+  const value = curve.start + (row * curve.perRow);
+
+  return curve.perRow < 0 ? Math.max(curve.limit, value) : Math.min(curve.limit, value);
+}
+
+// Get the difficulty that comes after the given one, used to cycle
+// through them in the lobby
+export function nextDifficulty(name: DifficultyName): DifficultyName {
+  const names = Object.keys(difficultyProfiles) as DifficultyName[];
+
+  return names[(names.indexOf(name) + 1) % names.length];
+}
+
+// Check if a name sent by a player is one of the difficulty profiles. Only
+// the profiles themselves count, not anything inherited like "constructor"
+export function isDifficultyName(name: unknown): name is DifficultyName {
+  return typeof name === "string" && Object.keys(difficultyProfiles).includes(name);
+}
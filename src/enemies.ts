@@ -0,0 +1,66 @@
+import type { Enemy, EnemyType } from "./logic";
+import { horizontalOffset } from "./wrap";
+
+// The definition of how a type of enemy behaves
+export interface EnemyDefinition {
+  // the width of the enemy's hit box as a factor of screen width
+  width: number;
+  // the height of the enemy's hit box as a factor of screen height
+  height: number;
+  // the lowest height in the level this enemy will appear at
+  minHeight: number;
+  // move the enemy for one update of the game loop
+  move: (enemy: Enemy) => void;
+}
+
+// How far above and below its flight line a bat will swoop
+const batSwoopHeight = 0.15;
+// How quickly a bat swoops up and down
+const batSwoopSpeed = 0.1;
+
+// keep moving until we hit a screen edge then turn round
+function patrol(enemy: Enemy): void {
+  if (enemy.dir === "left") {
+    enemy.x -= enemy.speed;
+    if (enemy.x < 0) {
+      enemy.dir = "right";
+    }
+  } else {
+    enemy.x += enemy.speed;
+    if (enemy.x > 1) {
+      enemy.dir = "left";
+    }
+  }
+}
+
+// The behaviour of each type of enemy
+export const enemyTypes: Record<EnemyType, EnemyDefinition> = {
+  // birds follow a simple pattern, flying straight across the screen
+  // and turning round at the edges
+  bird: {
+    width: 0.1,
+    height: 0.1,
+    minHeight: 0,
+    move: patrol,
+  },
+  // bats are smaller but swoop up and down in a sine wave as they cross
+  // the screen. They only live in the higher part of the tower
+  bat: {
+    width: 0.08,
+    height: 0.07,
+    minHeight: 20,
+    move: (enemy) => {
+      patrol(enemy);
+      enemy.phase += batSwoopSpeed;
+      enemy.y = enemy.baseY + (Math.sin(enemy.phase) * batSwoopHeight);
+    },
+  },
+};
+
+// Check if a point (e.g. a jumper's position) is inside the hit box of an
+// enemy. With wrapping on the hit box reaches across the edge of the screen
+export function hitsEnemy(enemy: Enemy, x: number, y: number, wrap: boolean): boolean {
+  const definition = enemyTypes[enemy.type];
+
+  return Math.abs(horizontalOffset(enemy.x, x, wrap)) < definition.width / 2 && Math.abs(enemy.y - y) < definition.height / 2;
+}
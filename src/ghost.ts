@@ -0,0 +1,95 @@
+// A player's path through their best round. It's kept in Rune's persisted
+// player data and played back as a "ghost" on later rounds so there's
+// always something to race against. Persisted data is limited in size so
+// the path is sampled at a fixed interval and packed into a string
+export interface GhostTrail {
+  // the highest point reached on the run
+  height: number;
+  // the time in ms between each sample
+  interval: number;
+  // the positions on the run, three characters per sample (see packGhost())
+  samples: string;
+}
+
+// How often the local player's position is sampled while recording
+export const ghostInterval = 200;
+// The longest trail that will be kept, 400 seconds at the sample interval
+export const maxGhostSamples = 2000;
+
+// The characters used to pack the samples, each holds 6 bits
+const ghostChars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+// The number of steps across the screen x is quantized to
+const xSteps = ghostChars.length - 1;
+// The number of steps per screen height y is quantized to
+const yStepsPerScreen = 1000;
+// The y of each sample is stored as the change from the last one, offset
+// so it's always positive. This is the largest change two characters hold
+const yDeltaOffset = (ghostChars.length * ghostChars.length) / 2;
+
+// Pack sampled [x, y] positions into a trail. x is stored in one character and
+// the change in y in two. The change is taken from the position the unpacked
+// trail will be at, not the real one, so rounding errors don't build up
+export function packGhost(points: number[][], height: number): GhostTrail {
+  let samples = "";
+  let lastY = 0;
+
+  for (const [x, y] of points.slice(0, maxGhostSamples)) {
+    const xStep = Math.round(Math.max(0, Math.min(1, x)) * xSteps);
+    const delta = Math.max(-yDeltaOffset, Math.min(yDeltaOffset - 1, Math.round((y - lastY) * yStepsPerScreen)));
+    const packed = delta + yDeltaOffset;
+
+    samples += ghostChars[xStep] + ghostChars[Math.floor(packed / ghostChars.length)] + ghostChars[packed % ghostChars.length];
+    lastY += delta / yStepsPerScreen;
+  }
+
+  return { height, interval: ghostInterval, samples };
+}
+
+// Unpack a trail back into [x, y] positions
+export function unpackGhost(trail: GhostTrail): number[][] {
+  const points: number[][] = [];
+  let y = 0;
+
+  for (let i = 0; i + 2 < trail.samples.length; i += 3) {
+    const x = ghostChars.indexOf(trail.samples[i]) / xSteps;
+    const packed = (ghostChars.indexOf(trail.samples[i + 1]) * ghostChars.length) + ghostChars.indexOf(trail.samples[i + 2]);
+    y += (packed - yDeltaOffset) / yStepsPerScreen;
+    points.push([x, y]);
+  }
+
+  return points;
+}
+
+// Get the position of the ghost at a given time into the round, smoothly
+// moving between samples. Returns null once the trail has ended
+export function ghostPosition(points: number[][], interval: number, elapsed: number): number[] | null {
+  const at = Math.max(0, elapsed) / interval;
+  const index = Math.floor(at);
+  if (index >= points.length - 1) {
+    return null;
+  }
+
+  const from = points[index];
+  const to = points[index + 1];
+  const fraction = at - index;
+
+  return [from[0] + ((to[0] - from[0]) * fraction), from[1] + ((to[1] - from[1]) * fraction)];
+}
+
+// Check that a trail sent by a client is well formed before storing it
+export function validGhost(trail: GhostTrail): boolean {
+  if (!trail || !Number.isFinite(trail.height) || typeof trail.samples !== "string" || trail.interval !== ghostInterval) {
+    return false;
+  }
+  if (trail.samples.length % 3 !== 0 || trail.samples.length > maxGhostSamples * 3) {
+    return false;
+  }
+
+  for (const char of trail.samples) {
+    if (!ghostChars.includes(char)) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,42 @@
+// When the game logic is run outside of the Rune environment (e.g. in
+// Node for unit tests) there is no global Rune object. The logic module
+// registers itself with Rune as soon as it's loaded so this module must be
+// imported before it to provide a stand in.
+//
+// Where Rune does exist (in the browser) it's left untouched.
+
+// The parts of the Rune SDK that the game logic uses
+interface HeadlessRune {
+  gameTime: () => number;
+  initLogic: () => void;
+  invalidAction: () => Error;
+}
+
+const scope = globalThis as unknown as { Rune?: HeadlessRune };
+
+if (!scope.Rune) {
+  scope.Rune = {
+    // time is faked by the simulation harness as it steps the game
+    gameTime: () => 0,
+    // the simulation harness drives the logic directly so there's
+    // nothing to register
+    initLogic: () => {
+      // do nothing
+    },
+    // actions rejected by the logic throw this just as they would with Rune
+    invalidAction: () => new Error("Invalid action")
+  };
+}
+
+// Run a function against the game logic while Rune.gameTime() reports
+// the given time. The original clock is always restored afterwards.
+export function withGameTime<T>(time: number, fn: () => T): T {
+  const rune = scope.Rune as HeadlessRune;
+  const original = rune.gameTime;
+  rune.gameTime = () => time;
+  try {
+    return fn();
+  } finally {
+    rune.gameTime = original;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { Simulation } from "./simulation";
+import { DifficultyName, difficultyProfiles } from "./difficulty";
+import { chunkRows, generateRows, startLevel } from "./level";
+import { GameState } from "./logic";
+
+// The seeds the level is checked against
+const seeds = [1, 42, 1234, 987654, 0x7ffffffe];
+// How far up the level is generated for the checks
+const rows = chunkRows * 20;
+
+// create a game state with a level generated from the seed
+function levelFor(seed: number, difficulty: DifficultyName = "normal"): GameState {
+  const game = new Simulation().game;
+  game.settings.difficulty = difficulty;
+  startLevel(game, seed);
+  generateRows(game, rows);
+
+  return game;
+}
+
+describe("level generation", () => {
+  it("always generates the same level from the same seed", () => {
+    for (const seed of seeds) {
+      const first = levelFor(seed);
+      const second = levelFor(seed);
+
+      expect(second.platforms).toEqual(first.platforms);
+      expect(second.enemies).toEqual(first.enemies);
+      expect(second.powerUps).toEqual(first.powerUps);
+      expect(second.sliding).toEqual(first.sliding);
+    }
+  });
+
+  it("generates different levels from different seeds", () => {
+    expect(levelFor(1).platforms).not.toEqual(levelFor(2).platforms);
+  });
+
+  it("generates the same level however the chunks are asked for", () => {
+    const allAtOnce = levelFor(42);
+    const game = new Simulation().game;
+    startLevel(game, 42);
+    for (let row = 0; row <= rows; row += 7) {
+      generateRows(game, row);
+    }
+
+    expect(game.platforms).toEqual(allAtOnce.platforms);
+    expect(game.enemies).toEqual(allAtOnce.enemies);
+  });
+
+  it("never leaves more than five rows between platforms that can be landed on", () => {
+    for (const difficulty of Object.keys(difficultyProfiles) as DifficultyName[]) {
+      for (const seed of seeds) {
+        const game = levelFor(seed, difficulty);
+        let lastLandable = 0;
+
+        for (let row = 1; row < game.level.nextRow; row++) {
+          const platform = game.platforms[row];
+          // spikes, fallers and vanishers don't count as somewhere to land
+          if (!platform || platform.spikes || platform.faller || platform.vanisher) {
+            continue;
+          }
+
+          expect(row - lastLandable, difficulty + " seed " + seed + " row " + row).toBeLessThanOrEqual(5);
+          lastLandable = row;
+        }
+        expect(game.level.nextRow - lastLandable).toBeLessThanOrEqual(5);
+      }
+    }
+  });
+});
@@ -0,0 +1,231 @@
+import { DifficultyProfile, curveAt, difficultyProfiles } from "./difficulty";
+import { enemyTypes } from "./enemies";
+import type { EnemyType, GameState, Platform, PowerUpType } from "./logic";
+import { powerUpHeight, powerUpTypes } from "./powerups";
+
+// The width of a platform in screen coordinates (we get 6 platforms across the screen)
+export const platformWidth = 1 / 6;
+// The height of a row of platforms in screen coordinates
+export const rowHeight = 0.05;
+// The number of rows generated in one go when the level needs extending
+export const chunkRows = 50;
+// How many rows above the highest living jumper we keep generated
+const lookAheadRows = 40;
+// The first row that power ups can appear on
+const powerUpStartRow = 10;
+// How far below the lowest living jumper (in screen heights) rows are kept
+// before they're removed from the game state
+const pruneDistance = 2;
+
+// The state of our seeded random number generator. It's kept as
+// a plain object so the same sequence can be reproduced from
+// just the seed
+export interface Random {
+  // the current internal state of the generator
+  state: number;
+}
+
+// The state of the level generator, this is kept in the game state so
+// that the level can be extended as the players climb
+export interface LevelGenerator {
+  // the random number generator, seeded at the start of the round
+  rng: Random;
+  // the next row that will be generated
+  nextRow: number;
+  // the last row that had a platform players could use
+  lastValidRow: number;
+  // the last row that had spikes on it
+  lastSpike: number;
+  // the height at which the next enemy will be placed
+  nextEnemyY: number;
+}
+
+// Create a random number generator that will always produce the
+// same sequence for the same seed
+export function createRandom(seed: number): Random {
+  return { state: seed | 0 };
+}
+
+// Get the next random number from the generator in the range 0 to 1,
+// this is mulberry32 - small, fast and good enough for level generation
+export function random(rng: Random): number {
+  rng.state = (rng.state + 0x6D2B79F5) | 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Generate a platform at a particular level - note that we can
+// indicate that the platform is required, this is the case
+// where there hasn't been a normal for a while and the player's won't
+// be able to progress without a forced normal platform
+function generatePlatform(rng: Random, profile: DifficultyProfile, i: number, requiredPlatform: boolean, lastSpike: number): Platform {
+  // generate an x position across the whole screen (or if its a required platform
+  // make it roughly central so it can be reached)
+  const x = requiredPlatform
+    ? 0.5 + (random(rng) * platformWidth * 2) - platformWidth
+    : random(rng) * (1 - platformWidth);
+
+  // randomly add in spikes, falling, vanishing and sliding platforms and springs. How
+  // likely they are the further up you go depends on the difficulty profile
+  const hazards = i > profile.hazardStartRow && !requiredPlatform;
+  const spikes = (i - lastSpike) > 4 && hazards && random(rng) < curveAt(profile.spike, i);
+  const faller = hazards && !spikes && (random(rng) < curveAt(profile.faller, i));
+  const vanisher = hazards && !spikes && !faller && (random(rng) < curveAt(profile.vanisher, i));
+  const slider = i > profile.sliderStartRow && !requiredPlatform && !spikes && !faller && !vanisher && (random(rng) < curveAt(profile.slider, i));
+  const spring = !faller && !spikes && !vanisher && (random(rng) < curveAt(profile.spring, i));
+  const vx = slider ? (0.004 + (random(rng) * 0.004)) * (random(rng) > 0.5 ? 1 : -1) : 0;
+
+  // create the actual platform
+  return {
+    x, y: i * rowHeight, width: platformWidth, spikes, faller, falling: false, vy: 0, spring,
+    slider, vx, vanisher, vanishAt: -1, vanished: false
+  };
+}
+
+// Start a new level from a seed. The ground is created and the first
+// rows are generated. The same seed will always give exactly the same level
+export function startLevel(state: GameState, seed: number): void {
+  const rng = createRandom(seed);
+
+  state.level = {
+    rng,
+    nextRow: 5,
+    lastValidRow: 0,
+    lastSpike: 0,
+    nextEnemyY: 1 + (random(rng) * 2)
+  };
+  state.enemies = [];
+  state.powerUps = [];
+  state.platforms = {};
+  state.sliding = [];
+
+  // create a wide platform at the bottom for players to start
+  // on
+  state.platforms[0] = {
+    x: -platformWidth,
+    y: rowHeight,
+    width: 2,
+    spikes: false,
+    faller: false,
+    falling: false,
+    vy: 0,
+    spring: false,
+    slider: false,
+    vx: 0,
+    vanisher: false,
+    vanishAt: -1,
+    vanished: false
+  }
+
+  generateRows(state, lookAheadRows);
+}
+
+// Generate the next chunk of rows in the level. Chunks are always the same
+// size and generated in order so the level only depends on the seed and not
+// on when the chunks were generated
+function generateChunk(state: GameState): void {
+  const level = state.level;
+  const rng = level.rng;
+  const profile = difficultyProfiles[state.settings.difficulty];
+  const end = level.nextRow + chunkRows;
+
+  // level generation follows the rules
+  // 1) There must be a platform that can be used every 5 rows, otherwise
+  //    people can get stuck
+  // 2) Springs are random
+  // 3) Spikes can be placed but don't count as a valid platform for rule 1, neither
+  //    do falling or vanishing platforms since they might be gone by the time
+  //    you get there. Sliding platforms do count, they're always somewhere on the row
+  // 4) Platforms get less likely as we get higher (based on the difficulty)
+  for (let i = level.nextRow; i < end; i++) {
+    if (i - level.lastValidRow >= 5) {
+      state.platforms[i] = generatePlatform(rng, profile, i, true, level.lastSpike);
+      level.lastValidRow = i;
+    } else if (random(rng) < curveAt(profile.platformDensity, i)) {
+      const platform = generatePlatform(rng, profile, i, false, level.lastSpike);
+      state.platforms[i] = platform;
+      if (!platform.spikes && !platform.faller && !platform.vanisher) {
+        level.lastValidRow = i;
+      }
+      if (platform.slider) {
+        state.sliding.push(i);
+      }
+      if (platform.spikes) {
+        level.lastSpike = i;
+      }
+    }
+
+    // safe, still platforms might have a power up floating above them
+    const platform = state.platforms[i];
+    if (platform && i > powerUpStartRow && !platform.spikes && !platform.faller && !platform.vanisher && !platform.slider) {
+      if (random(rng) < curveAt(profile.powerUp, i)) {
+        const types = Object.keys(powerUpTypes) as PowerUpType[];
+        state.powerUps.push({
+          x: platform.x + (platform.width / 2),
+          y: platform.y + powerUpHeight,
+          type: types[Math.floor(random(rng) * types.length)]
+        });
+      }
+    }
+  }
+  level.nextRow = end;
+
+  // randomly spawn some enemies across the chunk, picking from the
+  // types that can appear at this height
+  while (level.nextEnemyY < end * rowHeight) {
+    const y = level.nextEnemyY;
+    const types = (Object.keys(enemyTypes) as EnemyType[]).filter(type => enemyTypes[type].minHeight <= y);
+    state.enemies.push({
+      x: (random(rng) * 0.5) + 0.25,
+      y,
+      type: types[Math.floor(random(rng) * types.length)],
+      speed: 0.002 + (random(rng) * 0.005),
+      dir: random(rng) > 0.5 ? "left" : "right",
+      baseY: y,
+      phase: random(rng) * Math.PI * 2
+    });
+
+    const frequency = curveAt(profile.enemyFrequency, Math.floor(level.nextEnemyY / rowHeight));
+    level.nextEnemyY += (1 + (random(rng) * 3)) / frequency;
+  }
+}
+
+// Make sure the level has been generated up to at least the given row
+export function generateRows(state: GameState, row: number): void {
+  while (state.level.nextRow <= row) {
+    generateChunk(state);
+  }
+}
+
+// Keep the level generated ahead of the highest living jumper and remove
+// the rows and enemies far below all the living jumpers so the game
+// state stays small however high the players get. Jumpers frozen while
+// their player reconnects still count so the rows under them are there
+// when they come back
+export function updateLevel(state: GameState): void {
+  const living = state.jumpers.filter(j => !j.dead);
+  if (living.length === 0) {
+    return;
+  }
+
+  const top = Math.max(...living.map(j => j.y));
+  generateRows(state, Math.floor(top / rowHeight) + lookAheadRows);
+
+  const bottom = Math.min(...living.map(j => j.highest)) - 0.5 - pruneDistance;
+  if (bottom <= 0) {
+    return;
+  }
+  const firstRow = Math.floor(bottom / rowHeight);
+  for (const key of Object.keys(state.platforms)) {
+    if (Number(key) < firstRow) {
+      delete state.platforms[Number(key)];
+    }
+  }
+  state.falling = state.falling.filter(id => state.platforms[id]);
+  state.sliding = state.sliding.filter(id => state.platforms[id]);
+  state.vanishing = state.vanishing.filter(id => state.platforms[id]);
+  state.enemies = state.enemies.filter(e => e.baseY >= bottom);
+  state.powerUps = state.powerUps.filter(p => p.y >= bottom);
+}
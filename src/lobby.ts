@@ -0,0 +1,33 @@
+import type { GameState } from "./logic";
+
+// The state of the lobby between rounds where players pick their
+// characters, the host picks the settings and everyone readies up
+export interface LobbyState {
+  // the ID of the player that can change the room settings, the first
+  // player in the room. Passed on when they leave
+  host: string | null;
+  // the IDs of the joined players that are ready to start
+  ready: string[];
+}
+
+// The lobby for a room that nobody has readied up in yet
+export function emptyLobby(): LobbyState {
+  return { host: null, ready: [] };
+}
+
+// The player that hosts the room. If the host has left then whoever
+// has been in the room longest takes over
+export function roomHost(game: GameState, allPlayerIds: string[]): string | null {
+  if (game.lobby.host && allPlayerIds.includes(game.lobby.host)) {
+    return game.lobby.host;
+  }
+
+  return allPlayerIds[0] ?? null;
+}
+
+// Check if the round can start - at least one player has joined and
+// everyone that has is ready. Anyone still picking a character when
+// this happens sits the round out
+export function everyoneReady(game: GameState): boolean {
+  return game.jumpers.length > 0 && game.jumpers.every(j => game.lobby.ready.includes(j.id));
+}
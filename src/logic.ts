@@ -1,22 +1,51 @@
-import type { RuneClient, OnChangeParams } from "rune-sdk"
+import type { RuneClient, OnChangeParams, GameStateWithPersisted } from "rune-sdk"
+import { DifficultyName, defaultDifficulty, isDifficultyName } from "./difficulty";
+import { enemyTypes, hitsEnemy } from "./enemies";
+import { Replay, recordControls, recordLeave, recordRejoin, replayFull, startRecording } from "./replay";
+import { jetpackSpeed, magnetPull, magnetRange, pickupDistance, powerUpHeight, powerUpTypes } from "./powerups";
+import { LevelGenerator, rowHeight, startLevel, updateLevel } from "./level";
+import { GhostTrail, validGhost } from "./ghost";
+import { defaultGameMode, defaultRoundLength, disconnectGrace, gameModes, isGameMode, livingJumpers, roundLengths } from "./modes";
+import { smallestTeam, teams } from "./teams";
+import { LifetimeStats, characterUnlocked, emptyStats, levelForXp, recordRound } from "./progression";
+import { achievementEarned, achievements, trackStreaks } from "./achievements";
+import { LobbyState, emptyLobby, everyoneReady, roomHost } from "./lobby";
+import { steeringAxis } from "./steering";
+import { horizontalOffset, overlapsSpan, wrapX } from "./wrap";
 
-// The width of a platform in screen coordinates (we get 6 platforms across the screen)
-export const platformWidth = 1 / 6;
-// The amount of time in ms a game runs for (currently 2 minutes)
-export const roundTime = 1000 * 60 * 2;
-
-// The height of a row of platforms in screen coordinates
-export const rowHeight = 0.05;
 // The velocity applied to cause the jump
-const defaultJumpPower = 0.045;
+export const defaultJumpPower = 0.045;
 // The gravity thats applied every frame - not it's not related to 
 // earth's gravity at all. It's just a value that "feels" right
 const gravity = -0.003;
 // Half of the player's width - used for collision checks where
 // the distance is from the middle of the player
 const playerHalfWidth = 0.03;
-// The speed the players will move horizontally
+// The height of a player used for collisions between players
+const playerHeight = 0.06;
+// How far a player is knocked down when someone lands on their head
+const stompKnockDown = 0.03;
+// How far players are pushed apart when they bump into each other
+const bumpPush = 0.03;
+// The top speed the players will move horizontally
 export const moveSpeed = 0.03;
+// The fraction of a player's horizontal speed kept each update, so they
+// slide to a stop rather than stopping dead
+const moveFriction = 0.7;
+// The horizontal speed added each update when steering fully one way, with
+// friction this gives a top speed of moveSpeed
+const moveAcceleration = (moveSpeed * (1 - moveFriction)) / moveFriction;
+// The time in ms a vanishing platform lasts once it's been touched
+export const vanishTime = 1000;
+// The number of times the game logic is updated per second
+export const updatesPerSecond = 20;
+// The time in ms the results are shown for at the end of a round
+const resultsTime = 1000 * 6;
+// The themes are discovered by the clients from their assets so the logic
+// only knows them by name. This is the longest name allowed
+const maxThemeNameLength = 32;
+// The theme setting that picks a different theme each round
+export const randomTheme = "";
 
 // Game events that can occur in the game loop and the renderer 
 // wants to respond to
@@ -31,6 +60,22 @@ export enum GameEventType {
   SPRING = "spring",
   // New game starts
   START_NEW_GAME = "game",
+  // A player picked up a jetpack
+  JETPACK = "jetpack",
+  // A player picked up a shield
+  SHIELD = "shield",
+  // A player picked up a magnet
+  MAGNET = "magnet",
+  // A player's shield absorbed a hit
+  SHIELD_BREAK = "shieldBreak",
+  // A player landed on another player's head
+  STOMP = "stomp",
+  // Two players bumped into each other from the side
+  BUMP = "bump",
+  // A player unlocked an achievement
+  ACHIEVEMENT = "achievement",
+  // A platform started falling after being landed on
+  PLATFORM_FALL = "platformFall",
 }
 
 // Game events fired from the game logic loop
@@ -39,14 +84,28 @@ export interface GameEvent {
   type: GameEventType;
   // The ID of the player involved if any
   playerId?: string;
+  // The ID of the other player involved in events between two players
+  otherPlayerId?: string;
+  // What killed the player for DIE events
+  cause?: DeathCause;
+  // The ID of the achievement unlocked for ACHIEVEMENT events
+  achievement?: string;
+  // The row of the platform for PLATFORM_FALL events
+  row?: number;
 }
 
+// The ways a jumper can die
+export type DeathCause = "spike" | "enemy" | "fall";
+
 // The player's controls
 export interface Controls {
   // true if the player is pressing left
   left: boolean;
   // true if the player is pressing right
   right: boolean;
+  // how hard the player is steering from -1 (full left) to 1 (full
+  // right), for analog input like tilt, sticks and dragging
+  axis: number;
 }
 
 // the player's in the game are "jumpers" cause...
@@ -62,6 +121,8 @@ export interface Jumper {
   highest: number;
   // The character type that they're using
   type: number;
+  // The index of the team they're on, only used when team mode is on
+  team: number;
   // The velocity vertical component of the player - we don't
   // use velocity horizontally
   vy: number;
@@ -69,11 +130,55 @@ export interface Jumper {
   left: boolean;
   // True if this jumper wants to move right
   right: boolean;
+  // How hard this jumper is steering from -1 (left) to 1 (right)
+  axis: number;
+  // The horizontal velocity of the jumper
+  vx: number;
   // True if this jumper has hit a hazard or fallen off the
   // screen and died
   dead: boolean;
+  // The game time at which this jumper's jetpack runs out
+  jetpackUntil: number;
+  // The game time at which this jumper's magnet runs out
+  magnetUntil: number;
+  // True if this jumper has a shield to absorb the next hit
+  shield: boolean;
+  // The number of times this jumper has bounced this round
+  bounces: number;
+  // The number of springs this jumper has hit this round
+  springs: number;
+  // The number of platforms this jumper has broken by landing on them this round
+  platformsBroken: number;
+  // What killed this jumper, or null if they're still alive
+  deathCause: DeathCause | null;
+  // The time in ms this jumper survived for, set when they die or
+  // when the round ends
+  survived: number;
+  // The recent times of events that count towards achievement
+  // streaks, keyed on the event type
+  streaks: Record<string, number[]>;
+  // The game time at which the player controlling this jumper lost their
+  // connection, or -1 if they're connected. Disconnected jumpers are frozen
+  // in place until the player comes back or the grace period runs out
+  disconnectedAt: number;
+}
+
+// The types of power up that can be collected
+export type PowerUpType = "jetpack" | "shield" | "magnet";
+
+// A power up floating above a platform waiting to be collected
+export interface PowerUp {
+  // the x position of the power up as a factor of screen width
+  x: number;
+  // the y position of the power up as a factor of screen height
+  y: number;
+  // the type of power up
+  type: PowerUpType;
 }
 
+// The types of enemy that can appear in the game
+export type EnemyType = "bird" | "bat";
+
 // An enemy in the game is a flapping creating (bat or bird)
 // that floats across the screen
 export interface Enemy {
@@ -86,7 +191,12 @@ export interface Enemy {
   // The speed of the enemy - randomized
   speed: number;
   // The type of the enemy - theres only these two
-  type: "bird" | "bat"
+  type: EnemyType;
+  // The height the enemy was placed at, enemies that swoop
+  // move around this line
+  baseY: number;
+  // How far through its swoop the enemy is
+  phase: number;
 }
 
 export interface Platform {
@@ -108,6 +218,52 @@ export interface Platform {
   vy: number;
   // True if theres a spring on this platform
   spring: boolean;
+  // True if this platform slides from side to side
+  slider: boolean;
+  // The horizontal velocity of a sliding platform
+  vx: number;
+  // True if this platform will vanish a short time after being touched
+  vanisher: boolean;
+  // The game time at which a touched vanishing platform will disappear
+  // or -1 if it hasn't been touched yet
+  vanishAt: number;
+  // True if this platform has vanished and can't be jumped on
+  vanished: boolean;
+}
+
+// The game modes that decide how a round is won
+export type GameMode = "timed" | "elimination" | "race";
+
+// A player that arrived while a round was being played, they watch
+// until the round is over and then join the next one automatically
+export interface QueuedPlayer {
+  // The Rune ID of the player
+  id: string;
+  // The character type they'll play as
+  type: number;
+  // The team they'll be on in team mode
+  team: number;
+  // The x position they'll start at
+  x: number;
+}
+
+// The settings for the room chosen in the lobby, these carry over
+// from round to round
+export interface RoomSettings {
+  // The rules used to decide when the round ends and who wins
+  mode: GameMode;
+  // The difficulty profile used to generate the level
+  difficulty: DifficultyName;
+  // True if players collide with each other
+  pvp: boolean;
+  // True if players are split into teams that win together
+  teams: boolean;
+  // The time in ms a timed round lasts
+  roundLength: number;
+  // The name of the theme the level is drawn in, or randomTheme for a new one each round
+  theme: string;
+  // True if jumpers leaving one side of the screen come back on the other
+  wrap: boolean;
 }
 
 // The rune game state that maintained on all 
@@ -116,139 +272,299 @@ export interface Platform {
 export interface GameState {
   // The players in the game
   jumpers: Jumper[],
-  // The platforms they can jump on
-  platforms: Platform[],
+  // The players waiting to join the next round
+  queue: QueuedPlayer[],
+  // The host and ready checks for the lobby before the round starts
+  lobby: LobbyState,
+  // The platforms they can jump on keyed on their row. Rows are generated
+  // ahead of the players and removed once everyone is well past them
+  platforms: Record<number, Platform>,
   // the platforms that are currently falling
   falling: number[],
+  // the platforms that slide from side to side
+  sliding: number[],
+  // the platforms that have been touched and are about to vanish
+  vanishing: number[],
   // The enemies that will kill them if they touch
   enemies: Enemy[],
+  // The power ups waiting to be collected
+  powerUps: PowerUp[],
   // The time at which the game starts for all players
   startAt: number,
   // True if the game is in progress and people are jumping!
   jumping: boolean,
   // The time are which the game should restart after the end of the game
   gameRestartTime: number,
-  // The theme used for the platforms and backgrounds - randomized per round
-  theme: number,
+  // The name of the theme used for the platforms and backgrounds, or
+  // randomTheme if the clients should pick one using the roll
+  theme: string,
+  // A random number from 0 to 1 rolled each round, used by the clients
+  // to pick the same theme as each other when one wasn't named
+  themeRoll: number,
+  // The seed the level was generated from - the same seed always gives
+  // the same platforms and enemies
+  seed: number,
+  // The state of the level generator used to extend the level as players climb
+  level: LevelGenerator,
+  // The settings chosen for the room in the lobby
+  settings: RoomSettings,
+  // The number of times the update loop has run
+  tick: number,
+  // The recording of the current round, or null if it hasn't started counting down yet
+  replay: Replay | null,
+  // The ID of the player that won the round, or null if it's not over yet
+  winner: string | null,
+  // The index of the team that won the round in team mode, or -1 if
+  // there isn't one
+  winningTeam: number,
   // The game events that have occurred in the last loop
   events: GameEvent[],
   // The global scores recorded for the player, you get a point for a win
   scores: Record<string, number>;
+  // The wins for each team in team mode, indexed by team
+  teamScores: number[];
   // The best heights that each player has reached
   best: Record<string, number>;
 }
 
-export type GameUpdate = OnChangeParams<GameState, GameActions>;
+// The data Rune keeps for each player between sessions. Players that
+// haven't saved anything yet start with an empty object
+export interface PersistedData {
+  // the path the player took on their best round
+  ghost?: GhostTrail;
+  // the player's record across all the rounds they've played
+  stats?: LifetimeStats;
+  // the IDs of the achievements the player has unlocked
+  achievements?: string[];
+}
+
+// The game state along with each player's persisted data, as
+// passed to the logic by Rune
+export type PersistedGameState = GameStateWithPersisted<GameState, PersistedData>;
+
+export type GameUpdate = OnChangeParams<GameState, GameActions, PersistedData>;
 
 // Rune actions that can be applied to the game state
-type GameActions = {
+export type GameActions = {
   // join the game and select a character type
-  join: (params: { type: number }) => void
+  join: (params: { type: number, team?: number }) => void
   // update your controls to move your player
   controls: (params: { controls: Controls }) => void;
+  // change the room settings in the lobby
+  changeSettings: (params: { settings: Partial<RoomSettings> }) => void;
+  // keep the path of the player's best round to race against later
+  saveGhost: (params: { ghost: GhostTrail }) => void;
+  // mark yourself as ready, or not, for the round to start
+  ready: (params: { ready: boolean }) => void;
+}
+
+// The context passed to the update loop and events by Rune
+export interface UpdateContext {
+  // the game state to be updated
+  game: PersistedGameState;
+  // the IDs of all the players in the room
+  allPlayerIds: string[];
+}
+
+// The context passed to actions by Rune
+export interface ActionContext extends UpdateContext {
+  // the ID of the player that applied the action
+  playerId: string;
+}
+
+// The handlers for each of the actions a player can apply
+export type LogicActions = {
+  [K in keyof GameActions]: (params: Parameters<GameActions[K]>[0], context: ActionContext) => void;
+}
+
+// The handlers for Rune's room events
+export interface LogicEvents {
+  // a player joined the room
+  playerJoined: (playerId: string, context: UpdateContext) => void;
+  // a player left the room
+  playerLeft: (playerId: string, context: UpdateContext) => void;
 }
 
 declare global {
-  const Rune: RuneClient<GameState, GameActions>
+  const Rune: RuneClient<GameState, GameActions, PersistedData>
 }
 
-// Generate a platform at a particular level - note that we can 
-// indicate that the platform is required, this is the case
-// where there hasn't been a normal for a while and the player's won't 
-// be able to progress without a forced normal platform
-function generatePlatform(state: GameState, i: number, requiredPlatform: boolean, lastSpike: number): Platform {
-  // generate an x position across the whole screen (or if its a required platform
-  // make it roughly central so it can be reached)
-  const x = requiredPlatform
-    ? 0.5 + (Math.random() * platformWidth * 2) - platformWidth
-    : Math.random() * (1 - platformWidth);
-
-  // randomly add in spikes, falling platforms and springs. They all get more
-  // likely the further up you go
-  const spikes = (i - lastSpike) > 4 && i > 30 && !requiredPlatform && Math.random() < (0.1 + (i / 3000));
-  const faller = i > 30 && !requiredPlatform && !spikes && (Math.random() < (0.1 + (i / 3000)));
-  const spring = !faller && !spikes && (Math.random() < (0.08 + (i / 5000)));
-
-  // create the actual platform
-  state.platforms[i] = {
-    x, y: i * rowHeight, width: platformWidth, spikes, faller, falling: false, vy: 0, spring
-  }
+// Create a new jumper for a player standing on the ground ready to go
+export function createJumper(id: string, type: number, x: number, team = 0): Jumper {
+  return {
+    x,
+    y: rowHeight,
+    highest: rowHeight,
+    id,
+    type,
+    team,
+    // go go power rangers, players start ready to jump!
+    vy: defaultJumpPower,
+    left: false,
+    right: false,
+    axis: 0,
+    vx: 0,
+    dead: false,
+    jetpackUntil: -1,
+    magnetUntil: -1,
+    shield: false,
+    bounces: 0,
+    springs: 0,
+    platformsBroken: 0,
+    deathCause: null,
+    survived: 0,
+    streaks: {},
+    disconnectedAt: -1
+  };
+}
 
-  return state.platforms[i];
+// Queue up a player to join the next round with a random character on
+// whichever team is short of players
+function queuePlayer(game: GameState, allPlayerIds: string[], playerId: string): void {
+  game.queue.push({ id: playerId, type: Math.floor(Math.random() * 9), team: smallestTeam(game), x: startX(allPlayerIds, playerId) });
 }
 
-// check if we're in game over state, i.e. all the game has started
-// and all the players are dead
-export function gameOver(state: GameState | undefined): boolean {
-  if (!state) {
-    return false;
-  }
-  if (state.startAt === -1) {
+// The x position a player starts at, players are spread out
+// across the screen in the order they arrived in the room
+function startX(allPlayerIds: string[], playerId: string): number {
+  const baseX = 0.5 - ((allPlayerIds.length - 1) * 0.1);
+
+  return (allPlayerIds.indexOf(playerId) * 0.2) + baseX;
+}
+
+// A jumper has died, record how and how long they lasted
+function killJumper(game: GameState, jumper: Jumper, cause: DeathCause): void {
+  jumper.dead = true;
+  jumper.deathCause = cause;
+  jumper.survived = Rune.gameTime() - game.startAt;
+  game.events.push({ type: GameEventType.DIE, playerId: jumper.id, cause });
+}
+
+// A jumper has hit spikes or an enemy. If they have a shield it takes the
+// hit, otherwise they die. Returns true if the jumper was killed
+function hitHazard(game: GameState, jumper: Jumper, cause: DeathCause): boolean {
+  if (jumper.shield) {
+    jumper.shield = false;
+    game.events.push({ type: GameEventType.SHIELD_BREAK, playerId: jumper.id });
     return false;
   }
 
-  return !state.jumpers.find(j => !j.dead) || (Rune.gameTime() - state?.startAt > roundTime);
+  killJumper(game, jumper, cause);
+  return true;
 }
 
-// start a new game and generate the platforms
-function startGame(state: GameState): void {
-  // clear out the state
-  state.jumpers = [];
-  state.platforms = [];
-  state.enemies = [];
-  state.falling = [];
+// Check every jumper against the achievements they haven't unlocked yet
+// based on what happened this update, unlocks are kept in their
+// persisted data
+function checkAchievements(game: PersistedGameState): void {
+  const events = [...game.events];
 
-  // select a random theme
-  state.theme = Math.floor(Math.random() * 5);
-  // create a wide platform at the bottom for players to start
-  // on
-  state.platforms[0] = {
-    x: -platformWidth,
-    y: rowHeight,
-    width: 2,
-    spikes: false,
-    faller: false,
-    falling: false,
-    vy: 0,
-    spring: false
-  }
+  for (const jumper of game.jumpers) {
+    const persisted = game.persisted[jumper.id];
+    if (!persisted) {
+      continue;
+    }
 
-  // level generation follows the rules
-  // 1) There must be a platform that can be used every 5 rows, otherwise
-  //    people can get stuck
-  // 2) Springs are random
-  // 3) Spikes can be placed but don't count as a valid platform for rule 1
-  // 4) Platforms get less likely as we get higher
-  let lastValidRow = 0;
-  let lastSpike = 0;
-  for (let i = 5; i < 1000; i++) {
-    if (i - lastValidRow >= 5) {
-      generatePlatform(state, i, true, lastSpike);
-      lastValidRow = i;
-    } else if (Math.random() < (1 - Math.min(0.8, ((i / 50) * 0.1)))) {
-      const platform = generatePlatform(state, i, false, lastSpike);
-      if (!platform.spikes && !platform.faller) {
-        lastValidRow = i;
-      }
-      if (platform.spikes) {
-        lastSpike = i;
+    trackStreaks(jumper, events);
+    for (const [id, definition] of Object.entries(achievements)) {
+      if (!persisted.achievements?.includes(id) && achievementEarned(jumper, events, definition.rule)) {
+        persisted.achievements = [...(persisted.achievements ?? []), id];
+        game.events.push({ type: GameEventType.ACHIEVEMENT, playerId: jumper.id, achievement: id });
       }
     }
   }
+}
+
+// Find the closest platform below a jumper that is safe to land on, this is
+// where a magnet pulls the jumper
+function nearestSafePlatform(game: GameState, jumper: Jumper): Platform | undefined {
+  const row = Math.floor(jumper.y / rowHeight);
+  let nearest: Platform | undefined;
+
+  for (let i = row; i > row - magnetRange; i--) {
+    const platform = game.platforms[i];
+    if (!platform || platform.spikes || platform.falling || platform.vanished) {
+      continue;
+    }
+    const distance = Math.abs(horizontalOffset(jumper.x, platform.x + (platform.width / 2), game.settings.wrap));
+    if (!nearest || distance < Math.abs(horizontalOffset(jumper.x, nearest.x + (nearest.width / 2), game.settings.wrap))) {
+      nearest = platform;
+    }
+  }
+
+  return nearest;
+}
+
+// Check for collisions between two living jumpers. Landing on someone's head
+// while falling bounces you off and knocks them down, bumping into someone
+// from the side pushes you both apart
+function collideJumpers(game: GameState, a: Jumper, b: Jumper): void {
+  const wrap = game.settings.wrap;
+  const offset = horizontalOffset(a.x, b.x, wrap);
+  if (Math.abs(offset) > playerHalfWidth * 2 || Math.abs(a.y - b.y) > playerHeight) {
+    return;
+  }
 
-  // randomly spawn some enemies across the map
-  let nextEnemyY = 1 + (Math.random() * 2);
-  for (let i = 0; i < 10; i++) {
-    state.enemies.push({
-      x: (Math.random() * 0.5) + 0.25,
-      y: nextEnemyY,
-      type: "bird",
-      speed: 0.002 + (Math.random() * 0.005),
-      dir: Math.random() > 0.5 ? "left" : "right"
-    });
-
-    nextEnemyY += 1 + (Math.random() * 3);
+  // work out who is on top, if either
+  const [top, bottom] = a.y > b.y ? [a, b] : [b, a];
+  if (top.vy < 0 && top.y - bottom.y > playerHeight / 2) {
+    // stomp! the top player bounces and the one below gets
+    // knocked down a little
+    top.y = bottom.y + playerHeight;
+    top.vy = defaultJumpPower;
+    bottom.y -= stompKnockDown;
+    bottom.vy = Math.min(bottom.vy, 0);
+    game.events.push({ type: GameEventType.STOMP, playerId: top.id, otherPlayerId: bottom.id });
+    game.events.push({ type: GameEventType.BOUNCE, playerId: top.id });
+    top.bounces++;
+  } else {
+    // side on, push both players away from each other. With wrapping
+    // on they can be pushed across the seam
+    const [left, right] = offset > 0 ? [a, b] : [b, a];
+    left.x = wrap ? wrapX(left.x - bumpPush) : Math.max(playerHalfWidth, left.x - bumpPush);
+    right.x = wrap ? wrapX(right.x + bumpPush) : Math.min(1 - playerHalfWidth, right.x + bumpPush);
+    game.events.push({ type: GameEventType.BUMP, playerId: a.id, otherPlayerId: b.id });
+  }
+}
+
+// check if we're in game over state, i.e. the game has started
+// and the rules of the game mode say the round is done. The renderer
+// can pass in the time it's showing, e.g. when watching a replay
+export function gameOver(state: GameState | undefined, now = Rune.gameTime()): boolean {
+  if (!state) {
+    return false;
   }
+  if (state.startAt === -1) {
+    return false;
+  }
+
+  // the round is over once the game mode's rules say so, or if there's
+  // a winner since the rules may not hold once the round has ended
+  return state.winner !== null || (state.jumping && gameModes[state.settings.mode].over(state, now));
+}
+
+// start a new game and generate the platforms, optionally from a
+// specific seed so a level can be replayed
+export function startGame(state: GameState, seed?: number): void {
+  // clear out the state, anyone that was waiting for
+  // this round joins straight away
+  state.jumpers = state.queue.map(queued => createJumper(queued.id, queued.type, queued.x, queued.team));
+  state.queue = [];
+  state.lobby.ready = [];
+  state.replay = null;
+  state.winner = null;
+  state.winningTeam = -1;
+  state.falling = [];
+  state.sliding = [];
+  state.vanishing = [];
+
+  // use the theme picked for the room, or a random one
+  state.theme = state.settings.theme;
+  state.themeRoll = Math.random();
+  // generate the level from the seed, if we weren't given one (i.e. this
+  // isn't a rematch on the same map) then pick a new one
+  state.seed = seed ?? Math.floor(Math.random() * 0x7fffffff);
+  startLevel(state, state.seed);
 
   // and reset the game to starting state
   state.startAt = -1;
@@ -256,237 +572,549 @@ function startGame(state: GameState): void {
   state.gameRestartTime = -1;
 }
 
-Rune.initLogic({
-  minPlayers: 1,
-  maxPlayers: 4,
-  setup: (): GameState => {
-    // initial state is just to create the object, it's
-    // actually initialized in startGame()
-    const initialState: GameState = {
-      jumpers: [],
-      platforms: [],
-      falling: [],
-      enemies: [],
-      startAt: -1,
-      jumping: false,
-      gameRestartTime: -1,
-      theme: 0,
-      events: [],
-      scores: {},
-      best: {}
-    };
-
-    startGame(initialState);
-
-    return initialState;
-  },
-  events: {
-    playerJoined: () => {
-      // do nothing
+// create the initial state of the game
+export function setup(): GameState {
+  // initial state is just to create the object, it's
+  // actually initialized in startGame()
+  const initialState: GameState = {
+    jumpers: [],
+    queue: [],
+    lobby: emptyLobby(),
+    platforms: {},
+    falling: [],
+    sliding: [],
+    vanishing: [],
+    enemies: [],
+    powerUps: [],
+    startAt: -1,
+    jumping: false,
+    gameRestartTime: -1,
+    theme: randomTheme,
+    themeRoll: 0,
+    seed: 0,
+    level: { rng: { state: 0 }, nextRow: 0, lastValidRow: 0, lastSpike: 0, nextEnemyY: 0 },
+    settings: {
+      mode: defaultGameMode,
+      difficulty: defaultDifficulty,
+      pvp: false,
+      teams: false,
+      roundLength: defaultRoundLength,
+      theme: randomTheme,
+      wrap: false
     },
-    playerLeft(playerId, context) {
-      // remove the jumper for the player that left
-      context.game.jumpers = context.game.jumpers.filter(j => j.id !== playerId);
+    tick: 0,
+    replay: null,
+    winner: null,
+    winningTeam: -1,
+    events: [],
+    scores: {},
+    teamScores: teams.map(() => 0),
+    best: {}
+  };
+
+  startGame(initialState);
+
+  return initialState;
+}
+
+// Rune events for players arriving and leaving the room
+export const events: LogicEvents = {
+  playerJoined(playerId, context) {
+    const game = context.game;
+    // players that lost their connection during the round get their
+    // jumper back just where they left it
+    const jumper = game.jumpers.find(j => j.id === playerId && j.disconnectedAt !== -1);
+    if (jumper) {
+      jumper.disconnectedAt = -1;
+      recordRejoin(game, playerId);
+      return;
+    }
+
+    // players that arrive once the round has started watch it and
+    // are queued up for the next one with a random character
+    if (game.startAt !== -1) {
+      queuePlayer(game, context.allPlayerIds, playerId);
     }
   },
-  reactive: false,
-  updatesPerSecond: 20,
-  update: (context) => {
+  playerLeft(playerId, context) {
     const game = context.game;
-    game.events = [];
-
-    // if the game is in play and we've reached game over state
-    // then stop the game and declare the winner
-    if (game.jumping) {
-      if (game.gameRestartTime === -1 && gameOver(game)) {
-        game.gameRestartTime = Rune.gameTime() + 3000;
-        game.events.push({ type: GameEventType.WIN });
-        const winner = [...game.jumpers].sort((a, b) => b.highest - a.highest)[0];
+    game.queue = game.queue.filter(q => q.id !== playerId);
+    game.lobby.ready = game.lobby.ready.filter(id => id !== playerId);
+    recordLeave(game, playerId);
+
+    // once the round is under way the jumper is frozen in case the player is
+    // just reconnecting, otherwise remove the jumper for the player that left
+    const jumper = game.jumpers.find(j => j.id === playerId);
+    if (jumper && game.startAt !== -1) {
+      jumper.disconnectedAt = Rune.gameTime();
+      jumper.left = false;
+      jumper.right = false;
+      jumper.axis = 0;
+      jumper.vx = 0;
+    } else {
+      game.jumpers = game.jumpers.filter(j => j.id !== playerId);
+    }
+  }
+};
+
+// the main game loop, run updatesPerSecond times a second
+export function update(context: UpdateContext): void {
+  const game = context.game;
+  game.events = [];
+  game.tick++;
+
+  // keep recording until the round is over or the recording is full
+  if (game.replay && game.gameRestartTime === -1 && !replayFull(game.replay)) {
+    game.replay.length = game.tick - game.replay.startTick;
+  }
+
+  // if the game is in play and we've reached game over state
+  // then stop the game and declare the winner
+  if (game.jumping) {
+    if (game.gameRestartTime === -1 && gameOver(game)) {
+      game.gameRestartTime = Rune.gameTime() + resultsTime;
+      // everyone still alive survived the whole round
+      for (const jumper of game.jumpers) {
+        if (!jumper.dead) {
+          jumper.survived = Rune.gameTime() - game.startAt;
+        }
+      }
+      const winner = gameModes[game.settings.mode].winner(game);
+      game.events.push({ type: GameEventType.WIN, playerId: winner?.id });
+      if (winner) {
+        game.winner = winner.id;
         if (game.scores[winner.id] === undefined) {
           game.scores[winner.id] = 0;
         }
         game.scores[winner.id]++;
       }
-    }
-    // once the restart time is reached we go back to character selection
-    // and generate a new map
-    if (game.gameRestartTime !== -1 && Rune.gameTime() > game.gameRestartTime) {
-      startGame(game);
-      return;
-    }
-
-    // the game hasn't started yet
-    if (!game.jumping) {
-      // has everyone joined? If so, start the
-      // timer for the game beginning
-      if (game.jumpers.length === context.allPlayerIds.length) {
-        if (game.startAt === -1) {
-          game.startAt = Rune.gameTime() + (1000 * 3);
-          game.events.push({ type: GameEventType.START_NEW_GAME });
+      // team wins are kept separately to the players' own wins
+      if (game.settings.teams) {
+        const team = gameModes[game.settings.mode].winningTeam(game);
+        if (team !== undefined) {
+          game.winningTeam = team;
+          game.teamScores[team]++;
         }
       }
+      // add the round to everyone's lifetime stats, in team mode the
+      // whole of the winning team gets the win
+      for (const jumper of game.jumpers) {
+        const persisted = game.persisted[jumper.id];
+        if (persisted) {
+          const won = jumper.id === game.winner || (game.winningTeam !== -1 && jumper.team === game.winningTeam);
+          persisted.stats = recordRound(persisted.stats ?? emptyStats(), jumper, won);
+        }
+      }
+    }
+  }
+  // once the restart time is reached we go back to character selection
+  // and generate a new map
+  if (game.gameRestartTime !== -1 && Rune.gameTime() > game.gameRestartTime) {
+    startGame(game);
+    return;
+  }
+
+  // players that haven't come back within the grace period
+  // have left for good so their jumpers are removed
+  game.jumpers = game.jumpers.filter(j => j.disconnectedAt === -1 || Rune.gameTime() - j.disconnectedAt < disconnectGrace);
 
-      // if the start timer has run out then start the
-      // game and let people start jumping!
-      if (game.startAt > 0 && Rune.gameTime() > game.startAt) {
-        // start the game
-        game.jumping = true;
+  // if the host has left someone else takes over
+  game.lobby.host = roomHost(game, context.allPlayerIds);
 
-        // everyone bounces at the start
+  // the game hasn't started yet
+  if (!game.jumping) {
+    // is everyone that has joined ready? If so, start the
+    // timer for the game beginning
+    if (everyoneReady(game)) {
+      if (game.startAt === -1) {
+        // anyone that hasn't picked a character yet watches
+        // this round and plays in the next one
         for (const playerId of context.allPlayerIds) {
-          game.events.push({ type: GameEventType.BOUNCE, playerId });
+          if (!game.jumpers.find(j => j.id === playerId)) {
+            queuePlayer(game, context.allPlayerIds, playerId);
+          }
         }
+        game.startAt = Rune.gameTime() + (1000 * 3);
+        game.events.push({ type: GameEventType.START_NEW_GAME });
+        // the round is decided from here on so start recording it
+        game.replay = startRecording(game, context.allPlayerIds);
+        game.replay.length = 1;
       }
-    } else {
-      // we're in game, so we need to move and collide everything
+    }
 
-      // for any platform thats falling off the screen move it
-      // based on gravity - it is fun to see other people's platforms come flying down
-      // from above
-      for (const id of game.falling) {
-        const platform = game.platforms[id];
+    // if the start timer has run out then start the
+    // game and let people start jumping!
+    if (game.startAt > 0 && Rune.gameTime() > game.startAt) {
+      // start the game
+      game.jumping = true;
 
-        if (platform && platform.y > 0) {
-          platform.vy += gravity;
-          platform.y += platform.vy;
-        }
+      // everyone bounces at the start
+      for (const playerId of context.allPlayerIds) {
+        game.events.push({ type: GameEventType.BOUNCE, playerId });
       }
+    }
+  } else {
+    // we're in game, so we need to move and collide everything
 
-      // enemies follow a simple pattern, keep moving until you 
-      // hit a screen edge then turn round
-      for (const enemy of game.enemies) {
-        if (enemy.dir === "left") {
-          enemy.x -= enemy.speed;
-          if (enemy.x < 0) {
-            enemy.dir = "right";
-          }
-        } else {
-          enemy.x += enemy.speed;
-          if (enemy.x > 1) {
-            enemy.dir = "left";
-          }
+    // for any platform thats falling off the screen move it
+    // based on gravity - it is fun to see other people's platforms come flying down
+    // from above
+    for (const id of game.falling) {
+      const platform = game.platforms[id];
+
+      if (platform && platform.y > 0) {
+        platform.vy += gravity;
+        platform.y += platform.vy;
+      }
+    }
+
+    // sliding platforms move across the screen and turn round
+    // when they reach the edges
+    for (const id of game.sliding) {
+      const platform = game.platforms[id];
+
+      if (platform) {
+        platform.x += platform.vx;
+        if (platform.x < 0 || platform.x > 1 - platform.width) {
+          platform.vx = -platform.vx;
+          platform.x = Math.max(0, Math.min(1 - platform.width, platform.x));
         }
       }
+    }
 
-      // next we're going to go through all the jumpers, we're going to move
-      // then in small steps to make the collision detection simple.
-      for (const jumper of game.jumpers) {
-        // apply gravity to let the players fall
-        jumper.vy += gravity;
+    // platforms that have been touched disappear once their time is up
+    for (const id of game.vanishing) {
+      const platform = game.platforms[id];
 
-        // move a little bit of the velocity step
-        jumper.y += jumper.vy;
+      if (platform && Rune.gameTime() > platform.vanishAt) {
+        platform.vanished = true;
+      }
+    }
+    game.vanishing = game.vanishing.filter(id => game.platforms[id] && !game.platforms[id].vanished);
 
-        // can't land of platforms if you're dead, just fall off screen
-        if (jumper.dead) {
-          continue;
-        }
-        if (gameOver(game)) {
-          continue;
-        }
+    // each type of enemy has its own pattern of movement
+    for (const enemy of game.enemies) {
+      enemyTypes[enemy.type].move(enemy);
+    }
+
+    // next we're going to go through all the jumpers, moving each one and
+    // checking for collisions independently of the others.
+    for (const jumper of game.jumpers) {
+      // disconnected players are frozen until they come back
+      if (jumper.disconnectedAt !== -1) {
+        continue;
+      }
+
+      // apply gravity to let the players fall
+      jumper.vy += gravity;
+
+      // unless they're flying with a jetpack
+      if (!jumper.dead && jumper.jetpackUntil > Rune.gameTime()) {
+        jumper.vy = jetpackSpeed;
+      }
+
+      // remember where we started so we can check every row
+      // we pass through
+      const lastY = jumper.y;
+
+      // move a little bit of the velocity step
+      jumper.y += jumper.vy;
+
+      // can't land of platforms if you're dead, just fall off screen
+      if (jumper.dead) {
+        continue;
+      }
+      if (gameOver(game)) {
+        continue;
+      }
 
-        // if we're falling down, then look for a platform
-        // to land on
-        if (jumper.vy < 0) {
-          const index = Math.floor(jumper.y / rowHeight);
+      // if we're falling down, then look for a platform to land on. At high
+      // speeds we can pass through more than one row in an update so sweep
+      // through every row we've crossed, from the top down, and land on the
+      // first one we hit
+      if (jumper.vy < 0) {
+        const fromRow = Math.floor(lastY / rowHeight);
+        const toRow = Math.floor(jumper.y / rowHeight);
+
+        for (let index = fromRow; index >= toRow; index--) {
           // we can index since we know that platforms of evenly spaced
           const platform = game.platforms[index];
 
-          // if the platform is falling we can't stand on it 
-          if (platform && !platform.falling) {
-            // is the jumper on the right horizontal segment to match the platform
-            if (jumper.x > platform.x - playerHalfWidth && jumper.x < platform.x + platform.width + playerHalfWidth) {
-              // landed on the platform
-
-              // spikes on the platform, kill the player
-              if (platform.spikes) {
-                jumper.dead = true;
-                game.events.push({ type: GameEventType.DIE, playerId: jumper.id });
-              }
-              // if the platform falls when landed on, start the fall
-              if (platform.faller && !platform.falling) {
-                platform.falling = true;
-                game.falling.push(index);
-              }
-
-              // we hit a platform so undo any penetration of the player into the 
-              // platform by setting the y co-ordinate to the platform's position
-              jumper.y = platform.y;
-              // apply the jump - if theres a spring scale it up
-
-              jumper.vy = platform.spring ? defaultJumpPower * 1.5 : defaultJumpPower;
-              if (!platform.spikes) {
-                if (platform.spring) {
-                  game.events.push({ type: GameEventType.SPRING, playerId: jumper.id });
-                } else {
-                  game.events.push({ type: GameEventType.BOUNCE, playerId: jumper.id });
-                }
-              }
-              break;
+          // if the platform is falling or has vanished we can't stand on it 
+          if (!platform || platform.falling || platform.vanished) {
+            continue;
+          }
+          // is the jumper on the right horizontal segment to match the platform
+          if (!overlapsSpan(jumper.x, platform.x, platform.x + platform.width, playerHalfWidth, game.settings.wrap)) {
+            continue;
+          }
+
+          // landed on the platform
+
+          // spikes on the platform, kill the player (unless they're shielded)
+          const killed = platform.spikes && hitHazard(game, jumper, "spike");
+          // if the platform falls when landed on, start the fall
+          if (platform.faller && !platform.falling) {
+            platform.falling = true;
+            game.falling.push(index);
+            jumper.platformsBroken++;
+            game.events.push({ type: GameEventType.PLATFORM_FALL, playerId: jumper.id, row: index });
+          }
+          // if the platform vanishes when touched, start the countdown
+          if (platform.vanisher && platform.vanishAt === -1) {
+            platform.vanishAt = Rune.gameTime() + vanishTime;
+            game.vanishing.push(index);
+          }
+
+          // we hit a platform so undo any penetration of the player into the 
+          // platform by setting the y co-ordinate to the platform's position
+          jumper.y = platform.y;
+          // apply the jump - if theres a spring scale it up
+
+          jumper.vy = platform.spring ? defaultJumpPower * 1.5 : defaultJumpPower;
+          if (!killed) {
+            if (platform.spring) {
+              game.events.push({ type: GameEventType.SPRING, playerId: jumper.id });
+              jumper.springs++;
+            } else {
+              game.events.push({ type: GameEventType.BOUNCE, playerId: jumper.id });
             }
+            jumper.bounces++;
           }
+          // we've landed so there's no need to check the rows below, the
+          // rest of this jumper's update and the other jumpers carry on
+          break;
         }
+      }
 
-        // non-step based collision and movement
-        if (!jumper.dead) {
-          // are we close enough to any enemy - if so, die!
-          if (game.enemies.find(e => Math.abs(e.x - jumper.x) < 0.05 && Math.abs(e.y - jumper.y) < 0.05)) {
-            // collide with enemy
-            jumper.dead = true;
-            game.events.push({ type: GameEventType.DIE, playerId: jumper.id });
+      // non-step based collision and movement
+      if (!jumper.dead) {
+        // are we inside any enemy's hit box - if so, die!
+        const enemy = game.enemies.find(e => hitsEnemy(e, jumper.x, jumper.y, game.settings.wrap));
+        if (enemy && !hitHazard(game, jumper, "enemy")) {
+          // the shield took the hit and knocked the enemy out of the sky
+          game.enemies = game.enemies.filter(e => e !== enemy);
+        }
+
+        // based on how hard the player is steering speed the character up,
+        // friction slows them down again. Note we can only move to the edges
+        // unless wrapping is on, then we come back on the other side
+        jumper.vx = (jumper.vx + (jumper.axis * moveAcceleration)) * moveFriction;
+        jumper.x += jumper.vx;
+        if (game.settings.wrap) {
+          jumper.x = wrapX(jumper.x);
+        } else if (jumper.x < playerHalfWidth || jumper.x > 1 - playerHalfWidth) {
+          jumper.x = Math.max(playerHalfWidth, Math.min(1 - playerHalfWidth, jumper.x));
+          jumper.vx = 0;
+        }
+
+        // a magnet pulls a falling jumper towards the nearest safe platform
+        if (jumper.magnetUntil > Rune.gameTime() && jumper.vy < 0) {
+          const target = nearestSafePlatform(game, jumper);
+          if (target) {
+            const dx = horizontalOffset(jumper.x, target.x + (target.width / 2), game.settings.wrap);
+            jumper.x += Math.max(-magnetPull, Math.min(magnetPull, dx));
+            if (game.settings.wrap) {
+              jumper.x = wrapX(jumper.x);
+            }
           }
+        }
 
-          // based on what the player is pressing move the character. Note we can 
-          // only move to the edges
-          if (jumper.right && jumper.x < 1 - playerHalfWidth) {
-            jumper.x += moveSpeed;
+        // collect any power up we're touching
+        const powerUp = game.powerUps.find(p => Math.abs(horizontalOffset(jumper.x, p.x, game.settings.wrap)) < pickupDistance && Math.abs(p.y - (jumper.y + powerUpHeight)) < pickupDistance);
+        if (powerUp) {
+          game.powerUps = game.powerUps.filter(p => p !== powerUp);
+          if (powerUp.type === "jetpack") {
+            jumper.jetpackUntil = Rune.gameTime() + powerUpTypes.jetpack.duration;
+            game.events.push({ type: GameEventType.JETPACK, playerId: jumper.id });
           }
-          if (jumper.left && jumper.x > playerHalfWidth) {
-            jumper.x -= moveSpeed;
+          if (powerUp.type === "shield") {
+            jumper.shield = true;
+            game.events.push({ type: GameEventType.SHIELD, playerId: jumper.id });
           }
-
-          // record the highest value if we've gone higher
-          jumper.highest = Math.max(jumper.highest, jumper.y);
-          if (!game.best[jumper.id] || jumper.highest > game.best[jumper.id]) {
-            game.best[jumper.id] = jumper.highest;
+          if (powerUp.type === "magnet") {
+            jumper.magnetUntil = Rune.gameTime() + powerUpTypes.magnet.duration;
+            game.events.push({ type: GameEventType.MAGNET, playerId: jumper.id });
           }
+        }
 
-          if (jumper.y < jumper.highest - 0.5 && !jumper.dead) {
-            // fell off screen
-            jumper.dead = true;
-            game.events.push({ type: GameEventType.DIE, playerId: jumper.id });
-          }
+        // record the highest value if we've gone higher
+        jumper.highest = Math.max(jumper.highest, jumper.y);
+        if (!game.best[jumper.id] || jumper.highest > game.best[jumper.id]) {
+          game.best[jumper.id] = jumper.highest;
+        }
+
+        if (jumper.y < jumper.highest - 0.5 && !jumper.dead) {
+          // fell off screen
+          killJumper(game, jumper, "fall");
+        }
+      }
+    }
+
+    // if players can collide with each other check each pair of
+    // living, connected jumpers once
+    if (game.settings.pvp && !gameOver(game)) {
+      const living = livingJumpers(game).filter(j => j.disconnectedAt === -1);
+      for (let i = 0; i < living.length; i++) {
+        for (let j = i + 1; j < living.length; j++) {
+          collideJumpers(game, living[i], living[j]);
         }
       }
     }
+
+    // see if anyone has earned an achievement
+    checkAchievements(game);
+
+    // extend the level ahead of the players and tidy up
+    // what they've left behind
+    updateLevel(game);
+  }
+}
+
+// the actions players can apply to the game state
+export const actions: LogicActions = {
+  // join the game and select a player type
+  join: ({ type, team = 0 }, context) => {
+    // players can only pick characters they've unlocked
+    const stats = context.game.persisted[context.playerId]?.stats ?? emptyStats();
+    if (!teams[team] || !characterUnlocked(type, levelForXp(stats.xp))) {
+      throw Rune.invalidAction();
+    }
+
+    // you can only join once
+    const game = context.game;
+    if (game.jumpers.find(j => j.id === context.playerId)) {
+      throw Rune.invalidAction();
+    }
+    const x = startX(context.allPlayerIds, context.playerId);
+
+    // once the round has started players can only pick the character
+    // they'll use in the next one
+    if (game.startAt !== -1) {
+      game.queue = game.queue.filter(q => q.id !== context.playerId);
+      game.queue.push({ id: context.playerId, type, team, x });
+      return;
+    }
+
+    // create a data model jumper for the player and assign the type
+    const jumper = createJumper(context.playerId, type, x, team);
+    context.game.jumpers.push(jumper);
   },
-  actions: {
-    // join the game and select a player type
-    join: ({ type }, context) => {
-      const baseX = 0.5 - ((context.allPlayerIds.length - 1) * 0.1);
-      const x = (context.allPlayerIds.indexOf(context.playerId) * 0.2) + baseX;
-
-      // create a data model jumper for the player and assign the type
-      context.game.jumpers.push({
-        x,
-        y: rowHeight,
-        highest: rowHeight,
-        id: context.playerId,
-        type,
-        // go go power rangers, players start ready to jump!
-        vy: defaultJumpPower,
-        left: false,
-        right: false,
-        dead: false
-      });
-    },
-    // update the controls of a player
-    controls: ({ controls }, context) => {
-      const jumper = context.game.jumpers.find(j => j.id === context.playerId);
-      if (jumper) {
-        jumper.right = controls.right;
-        jumper.left = controls.left;
+  // update the controls of a player
+  controls: ({ controls }, context) => {
+    if (typeof controls !== "object" || controls === null) {
+      throw Rune.invalidAction();
+    }
+
+    const jumper = context.game.jumpers.find(j => j.id === context.playerId);
+    if (jumper) {
+      jumper.right = controls.right;
+      jumper.left = controls.left;
+      jumper.axis = steeringAxis(controls);
+      recordControls(context.game, jumper.id, jumper);
+    }
+  },
+  // change the settings for the room, only the host can and only
+  // before the next game starts counting down
+  changeSettings: ({ settings }, context) => {
+    const game = context.game;
+    if (typeof settings !== "object" || settings === null) {
+      throw Rune.invalidAction();
+    }
+    if (game.jumping || game.startAt !== -1 || context.playerId !== roomHost(game, context.allPlayerIds)) {
+      throw Rune.invalidAction();
+    }
+
+    if (settings.difficulty !== undefined) {
+      if (!isDifficultyName(settings.difficulty)) {
+        throw Rune.invalidAction();
+      }
+      game.settings.difficulty = settings.difficulty;
+      // the level is generated based on the difficulty so
+      // it needs to be created again
+      startLevel(game, game.seed);
+    }
+    if (settings.mode !== undefined) {
+      if (!isGameMode(settings.mode)) {
+        throw Rune.invalidAction();
       }
+      game.settings.mode = settings.mode;
+    }
+    if (settings.pvp !== undefined) {
+      if (typeof settings.pvp !== "boolean") {
+        throw Rune.invalidAction();
+      }
+      game.settings.pvp = settings.pvp;
+    }
+    if (settings.teams !== undefined) {
+      if (typeof settings.teams !== "boolean") {
+        throw Rune.invalidAction();
+      }
+      game.settings.teams = settings.teams;
+    }
+    if (settings.roundLength !== undefined) {
+      if (!roundLengths.includes(settings.roundLength)) {
+        throw Rune.invalidAction();
+      }
+      game.settings.roundLength = settings.roundLength;
+    }
+    if (settings.wrap !== undefined) {
+      if (typeof settings.wrap !== "boolean") {
+        throw Rune.invalidAction();
+      }
+      game.settings.wrap = settings.wrap;
+    }
+    if (settings.theme !== undefined) {
+      if (typeof settings.theme !== "string" || settings.theme.length > maxThemeNameLength) {
+        throw Rune.invalidAction();
+      }
+      game.settings.theme = settings.theme;
+      // show the picked theme straight away in the lobby
+      if (settings.theme !== randomTheme) {
+        game.theme = settings.theme;
+      }
+    }
+
+    // everyone has to ready up again so nobody starts
+    // on settings they haven't seen
+    game.lobby.ready = [];
+  },
+  // store the path of a player's best round in their persisted data, it's only
+  // kept if it went higher than the one already stored and no higher than the
+  // player has actually reached
+  saveGhost: ({ ghost }, context) => {
+    const persisted = context.game.persisted[context.playerId];
+    if (!persisted || !validGhost(ghost) || ghost.height > (context.game.best[context.playerId] ?? 0)) {
+      throw Rune.invalidAction();
+    }
+
+    if (ghost.height > (persisted.ghost?.height ?? 0)) {
+      persisted.ghost = { height: ghost.height, interval: ghost.interval, samples: ghost.samples };
     }
   },
+  // mark a player as ready for the round to start, only those that
+  // have joined can ready up and only before the countdown
+  ready: ({ ready }, context) => {
+    const game = context.game;
+    if (typeof ready !== "boolean" || game.startAt !== -1 || !game.jumpers.find(j => j.id === context.playerId)) {
+      throw Rune.invalidAction();
+    }
+
+    game.lobby.ready = game.lobby.ready.filter(id => id !== context.playerId);
+    if (ready) {
+      game.lobby.ready.push(context.playerId);
+    }
+  }
+};
+
+Rune.initLogic({
+  minPlayers: 1,
+  maxPlayers: 4,
+  setup,
+  events,
+  reactive: false,
+  persistPlayerData: true,
+  updatesPerSecond,
+  update,
+  actions,
 })
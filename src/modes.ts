@@ -0,0 +1,100 @@
+import type { GameMode, GameState, Jumper } from "./logic";
+import { highestTeam } from "./teams";
+
+// The definition of the rules for a game mode
+export interface GameModeDefinition {
+  // the name of the mode shown to players
+  label: string;
+  // the colour the mode is shown in on the lobby
+  color: string;
+  // check if the round is over at the given game time, only called
+  // once the game has started
+  over: (game: GameState, now: number) => boolean;
+  // the player that won the round once it's over
+  winner: (game: GameState) => Jumper | undefined;
+  // the team that won the round once it's over when team mode is on
+  winningTeam: (game: GameState) => number | undefined;
+}
+
+// The amounts of time in ms a timed round can be set to run for
+export const roundLengths = [1, 2, 3, 5].map(minutes => 1000 * 60 * minutes);
+// The round length used when nobody has picked one (2 minutes)
+export const defaultRoundLength = roundLengths[1];
+// The height of the finish line in a race (250m)
+export const raceFinishHeight = 25;
+// The time in ms a disconnected player's jumper is kept waiting
+// for them to reconnect before they're removed (30 seconds)
+export const disconnectGrace = 1000 * 30;
+
+// The jumpers that are still in the round at the given game time. Jumpers
+// frozen while their player reconnects count until the grace period runs
+// out, so a dropped connection doesn't lose anyone the round
+export function livingJumpers(game: GameState, now = Rune.gameTime()): Jumper[] {
+  return game.jumpers.filter(j => !j.dead && (j.disconnectedAt === -1 || now - j.disconnectedAt < disconnectGrace));
+}
+
+// The jumper out of those given that has climbed the highest
+function highestJumper(jumpers: Jumper[]): Jumper | undefined {
+  return [...jumpers].sort((a, b) => b.highest - a.highest)[0];
+}
+
+// The rules for each game mode
+export const gameModes: Record<GameMode, GameModeDefinition> = {
+  // climb as high as possible before the time runs out, the highest wins
+  timed: {
+    label: "Timed Climb",
+    color: "white",
+    over: (game, now) => livingJumpers(game, now).length === 0 || now - game.startAt > game.settings.roundLength,
+    winner: (game) => highestJumper(game.jumpers),
+    // teams climb together, the highest combined height wins
+    winningTeam: highestTeam,
+  },
+  // the last player alive wins no matter how high they got, or in team
+  // mode the last team with anyone alive. Playing on your own the round
+  // lasts until you die
+  elimination: {
+    label: "Last One Standing",
+    color: "#FF6347",
+    over: (game, now) => {
+      const side = (jumper: Jumper) => game.settings.teams ? "" + jumper.team : jumper.id;
+      const sides = new Set(game.jumpers.map(side)).size;
+      const living = new Set(livingJumpers(game, now).map(side)).size;
+
+      return living <= (sides > 1 ? 1 : 0);
+    },
+    // if the last players died together then the highest of them wins
+    winner: (game) => highestJumper(livingJumpers(game)) ?? highestJumper(game.jumpers),
+    winningTeam: (game) => gameModes.elimination.winner(game)?.team,
+  },
+  // the first to reach the finish line wins
+  race: {
+    label: "Race to " + (raceFinishHeight * 10) + "m",
+    color: "#FFD700",
+    over: (game, now) => livingJumpers(game, now).length === 0 || !!game.jumpers.find(j => j.highest >= raceFinishHeight),
+    winner: (game) => highestJumper(game.jumpers),
+    winningTeam: (game) => highestJumper(game.jumpers)?.team,
+  },
+};
+
+// The game mode used when nobody has picked one
+export const defaultGameMode: GameMode = "timed";
+
+// Check if a name sent by a player is one of the game modes. Only the
+// modes themselves count, not anything inherited like "toString"
+export function isGameMode(mode: unknown): mode is GameMode {
+  return typeof mode === "string" && Object.keys(gameModes).includes(mode);
+}
+
+// Get the game mode that comes after the given one, used to cycle
+// through them in the lobby
+export function nextGameMode(mode: GameMode): GameMode {
+  const modes = Object.keys(gameModes) as GameMode[];
+
+  return modes[(modes.indexOf(mode) + 1) % modes.length];
+}
+
+// Get the round length that comes after the given one, used to cycle
+// through them in the lobby
+export function nextRoundLength(length: number): number {
+  return roundLengths[(roundLengths.indexOf(length) + 1) % roundLengths.length];
+}
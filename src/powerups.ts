@@ -0,0 +1,46 @@
+import type { PowerUpType } from "./logic";
+
+// The definition of a type of power up
+export interface PowerUpDefinition {
+  // the time in ms the power up lasts once collected, or -1 if
+  // it lasts until it's used
+  duration: number;
+  // the colour used to draw the power up
+  color: string;
+  // the letter shown on the power up so players can tell them apart
+  letter: string;
+}
+
+// How close (as a factor of screen size) a jumper needs to get to
+// a power up to pick it up
+export const pickupDistance = 0.05;
+// How far above the platform a power up floats
+export const powerUpHeight = 0.04;
+// The upward velocity given by a jetpack while it's active
+export const jetpackSpeed = 0.035;
+// How far a magnet pulls a jumper horizontally each update
+export const magnetPull = 0.01;
+// How many rows below the jumper a magnet looks for a safe platform
+export const magnetRange = 10;
+
+// The power ups that can be collected
+export const powerUpTypes: Record<PowerUpType, PowerUpDefinition> = {
+  // a few seconds of flying straight up
+  jetpack: {
+    duration: 3000,
+    color: "#FF8C00",
+    letter: "J"
+  },
+  // absorbs one hit from spikes or an enemy
+  shield: {
+    duration: -1,
+    color: "#1E90FF",
+    letter: "S"
+  },
+  // pulls the jumper towards the nearest safe platform
+  magnet: {
+    duration: 5000,
+    color: "#DC143C",
+    letter: "M"
+  }
+};
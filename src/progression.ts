@@ -0,0 +1,86 @@
+import type { Jumper } from "./logic";
+
+// A player's record across every room they've played in, kept in
+// Rune's persisted player data
+export interface LifetimeStats {
+  // the number of rounds won
+  wins: number;
+  // the highest point ever reached
+  best: number;
+  // the number of rounds played to the end
+  rounds: number;
+  // the number of times bounced across all rounds
+  bounces: number;
+  // the experience earned, which decides the player's level
+  xp: number;
+}
+
+// A character that can be picked on the character select screen. The extra
+// characters reuse the art of one of the originals in a different colour
+export interface CharacterDefinition {
+  // the index of the original character whose art is used
+  base: number;
+  // the colour the art is tinted, if any
+  tint?: string;
+  // the level a player needs to reach to play as this character
+  level: number;
+}
+
+// The experience earned for each metre climbed in a round
+const xpPerMetre = 1;
+// The extra experience earned for winning a round
+const xpForWin = 50;
+
+// The characters in the order they're shown on the character select
+// screen. A jumper's type is the index in this list
+export const characters: CharacterDefinition[] = [
+  { base: 0, level: 1 },
+  { base: 1, level: 1 },
+  { base: 2, level: 1 },
+  { base: 3, level: 1 },
+  { base: 4, level: 1 },
+  { base: 5, level: 1 },
+  { base: 6, level: 1 },
+  { base: 7, level: 1 },
+  { base: 8, level: 1 },
+  { base: 0, tint: "#FFD700", level: 3 },
+  { base: 4, tint: "#90FF90", level: 5 },
+  { base: 7, tint: "#FF90FF", level: 8 },
+];
+
+// The stats for a player that hasn't finished a round yet
+export function emptyStats(): LifetimeStats {
+  return { wins: 0, best: 0, rounds: 0, bounces: 0, xp: 0 };
+}
+
+// The total experience needed to reach a level, each level takes
+// 100 more than the one before
+export function xpForLevel(level: number): number {
+  return 50 * level * (level - 1);
+}
+
+// The level a player is at for the experience they've earned
+export function levelForXp(xp: number): number {
+  let level = 1;
+  while (xp >= xpForLevel(level + 1)) {
+    level++;
+  }
+
+  return level;
+}
+
+// Check if a player at the given level can play as a character
+export function characterUnlocked(type: number, level: number): boolean {
+  return !!characters[type] && characters[type].level <= level;
+}
+
+// Add a finished round to a player's lifetime stats
+export function recordRound(stats: LifetimeStats, jumper: Jumper, won: boolean): LifetimeStats {
+  return {
+    wins: stats.wins + (won ? 1 : 0),
+    best: Math.max(stats.best, jumper.highest),
+    rounds: stats.rounds + 1,
+    bounces: stats.bounces + jumper.bounces,
+    xp: stats.xp + (Math.floor(jumper.highest * 10) * xpPerMetre) + (won ? xpForWin : 0),
+  };
+}
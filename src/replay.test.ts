@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { Simulation } from "./simulation";
+import { ReplayPlayer } from "./ReplayPlayer";
+import { Replay, maxReplayInputs, maxRosterSize, packInput, recordControls, replayFull, unpackInput } from "./replay";
+import { GameState, updatesPerSecond } from "./logic";
+import { roundLengths } from "./modes";
+
+// the positions of the jumpers in a way that can be compared
+function positions(game: GameState): [string, number, number, boolean][] {
+  return game.jumpers.map(j => [j.id, j.x, j.y, j.dead]);
+}
+
+// start a round with two players ready to be recorded
+function startRound(): Simulation {
+  const sim = new Simulation(["a", "b"]);
+  sim.changeSettings("a", { difficulty: "brutal", pvp: true });
+  sim.join("a", 1);
+  sim.join("b", 2);
+  sim.ready("a");
+  sim.ready("b");
+  sim.step();
+
+  return sim;
+}
+
+// steer both players about for a number of ticks
+function playFor(sim: Simulation, ticks: number): void {
+  for (let t = 1; t <= ticks && sim.game.gameRestartTime === -1; t++) {
+    if (t % 13 === 0) {
+      const axis = t % 26 === 0 ? -1 : 0.5;
+      sim.controls("a", { left: axis < 0, right: axis > 0, axis });
+    }
+    if (t % 17 === 0) {
+      const axis = t % 34 === 0 ? 1 : -0.3;
+      sim.controls("b", { left: axis < 0, right: axis > 0, axis });
+    }
+    sim.step();
+  }
+}
+
+// take a copy of the recording as a client would receive it
+function copyReplay(sim: Simulation): Replay {
+  expect(sim.game.replay).not.toBeNull();
+
+  return JSON.parse(JSON.stringify(sim.game.replay));
+}
+
+describe("replays", () => {
+  it("plays back to the same positions as the live round", () => {
+    const sim = startRound();
+    playFor(sim, 400);
+    const replay = copyReplay(sim);
+
+    const player = new ReplayPlayer(replay);
+    player.seek(replay.length);
+    expect(positions(player.game)).toEqual(positions(sim.game));
+  });
+
+  it("records the whole of the longest round with a full room steering as often as they can", () => {
+    const playerIds = ["a", "b", "c", "d"];
+    const sim = new Simulation(playerIds);
+    const roundLength = Math.max(...roundLengths);
+    sim.changeSettings("a", { difficulty: "casual", roundLength });
+    playerIds.forEach((playerId, index) => {
+      sim.join(playerId, index);
+      sim.ready(playerId);
+    });
+    sim.step();
+
+    // every player sends a new analog steering value each tenth of
+    // a second, the most the clients send
+    for (let t = 0; sim.game.gameRestartTime === -1; t++) {
+      if (t % (updatesPerSecond / 10) === 0) {
+        playerIds.forEach((playerId, index) => {
+          const axis = Math.round(Math.sin((t + (index * 7)) / 5) * 100) / 1000;
+          sim.controls(playerId, { left: axis < 0, right: axis > 0, axis });
+        });
+      }
+      sim.step();
+    }
+    const replay = copyReplay(sim);
+    expect(replayFull(replay)).toBe(false);
+    expect(replay.length).toBeGreaterThan((roundLength / 1000) * updatesPerSecond);
+
+    const player = new ReplayPlayer(replay);
+    player.seek(replay.length);
+    expect(positions(player.game)).toEqual(positions(sim.game));
+  });
+
+  it("gets to the same point when scrubbing backwards and forwards", () => {
+    const sim = startRound();
+    playFor(sim, 300);
+    const player = new ReplayPlayer(copyReplay(sim));
+
+    player.seek(200);
+    const first = positions(player.game);
+    player.seek(50);
+    player.seek(200);
+    expect(positions(player.game)).toEqual(first);
+  });
+
+  it("packs controls changes for every place in the roster", () => {
+    for (const index of [0, 3, 16, 200, maxRosterSize - 1]) {
+      const controls = { left: true, right: false, axis: -0.7 };
+      expect(unpackInput(packInput(5999, index, controls))).toEqual({ tick: 5999, index, controls });
+    }
+  });
+
+  it("stops recording rather than overflowing the roster", () => {
+    const sim = startRound();
+    const replay = sim.game.replay as Replay;
+    for (let i = replay.roster.length; i < maxRosterSize; i++) {
+      replay.roster.push("player" + i);
+    }
+    recordControls(sim.game, "player" + (maxRosterSize - 1), { left: true, right: false, axis: -1 });
+    expect(replay.inputs.length).toBe(1);
+
+    // there's no room for anyone else so the recording ends
+    recordControls(sim.game, "newcomer", { left: false, right: true, axis: 1 });
+    expect(replay.inputs.length).toBe(1);
+    expect(replayFull(replay)).toBe(true);
+    expect(new ReplayPlayer(copyReplay(sim)).inputs.every(input => input.index < maxRosterSize)).toBe(true);
+  });
+
+  it("stops recording once the recording is full", () => {
+    const sim = startRound();
+    playFor(sim, 20);
+    const replay = sim.game.replay as Replay;
+
+    // fill the recording up with controls changes
+    let axis = 0;
+    while (replay.inputs.length < maxReplayInputs) {
+      axis = axis === 1 ? -1 : 1;
+      sim.controls("a", { left: axis < 0, right: axis > 0, axis });
+    }
+    const length = replay.length;
+    sim.controls("a", { left: false, right: false, axis: 0 });
+    sim.step(20);
+
+    expect(replay.inputs.length).toBe(maxReplayInputs);
+    expect(replay.length).toBe(length);
+  });
+});
@@ -0,0 +1,185 @@
+import type { Controls, GameState, RoomSettings } from "./logic";
+import { axisSteps } from "./steering";
+import { roundLengths } from "./modes";
+
+// The version of the replay format, bumped if the format changes so old
+// exported replays can be recognised
+export const replayVersion = 1;
+// The most controls changes each client sends a second, they're rate
+// limited to one every tenth of a second
+const controlsPerSecond = 10;
+// The most players a room holds
+const roomSize = 4;
+// The time in seconds the countdown before a round runs for, the
+// recording starts with it. A second more is allowed for the
+// updates that end the round
+const countdownSeconds = 3;
+// The most controls changes kept in a recording. The recording is part of
+// the synced game state that's sent to everyone joining the room so it's
+// capped, but at enough for a full room steering as often as they can for
+// the longest timed round (around 120KB). Only elimination and race rounds
+// that run on past that fill it up, then the recording stops and the
+// replay ends there
+export const maxReplayInputs = ((Math.max(...roundLengths) / 1000) + countdownSeconds + 1) * controlsPerSecond * roomSize;
+// The most players a recording can refer to, the index of the player in the
+// roster is packed into 8 bits of each input. Players that leave and come back
+// keep their place so this is far more than a room ever needs, if it's
+// reached anyway the recording stops
+export const maxRosterSize = 256;
+
+// A recording of a round. Rather than storing positions we store the
+// level seed and settings along with every action players applied and the
+// tick it was applied on, the game logic is deterministic so running it
+// again with the same actions gives the same round
+export interface Replay {
+  // the version of the format this replay was recorded in
+  version: number;
+  // the seed the level was generated from
+  seed: number;
+  // the room settings the round was played with
+  settings: RoomSettings;
+  // the name of the theme the round was played in, or randomTheme if
+  // the clients picked one with the roll
+  theme: string;
+  // the roll the clients used to pick a theme if one wasn't named
+  themeRoll: number;
+  // the game time at which the recording started
+  startTime: number;
+  // the number of updates that had run before the recording started
+  startTick: number;
+  // the IDs of the players in the round, the actions refer to players
+  // by their index in this list
+  roster: string[];
+  // the players joining as [tick, roster index, character type, x, team]. Players
+  // can only join before the round starts so these are all on the first tick,
+  // anyone arriving later is queued for the next round
+  joins: number[][];
+  // the players leaving as [tick, roster index]
+  leaves: number[][];
+  // the players reconnecting to the jumper they left as [tick, roster index]
+  rejoins: number[][];
+  // the changes of controls, each packed into a single number (see packInput())
+  inputs: number[];
+  // the number of updates recorded
+  length: number;
+}
+
+// A controls change unpacked from a replay
+export interface ReplayInput {
+  // the tick the controls changed on
+  tick: number;
+  // the index of the player in the roster
+  index: number;
+  // the controls the player was pressing
+  controls: Controls;
+}
+
+// Pack a controls change into a single number to keep the replay small, the
+// bottom two bits are the buttons, the next five are the steering axis in
+// steps offset to be positive, the next eight are the player and the rest
+// is the tick
+export function packInput(tick: number, index: number, controls: Controls): number {
+  const axis = Math.round(controls.axis * axisSteps) + axisSteps;
+
+  return (((((tick * maxRosterSize) + index) * 32) + axis) * 4) + (controls.left ? 1 : 0) + (controls.right ? 2 : 0);
+}
+
+// Unpack a controls change packed with packInput()
+export function unpackInput(value: number): ReplayInput {
+  const left = (value & 1) !== 0;
+  const right = (value & 2) !== 0;
+
+  return {
+    tick: Math.floor(value / (128 * maxRosterSize)),
+    index: Math.floor(value / 128) % maxRosterSize,
+    controls: { left, right, axis: ((Math.floor(value / 4) % 32) - axisSteps) / axisSteps }
+  };
+}
+
+// Check if a recording has reached its size limit and stopped, either
+// there are too many inputs or too many players to refer to
+export function replayFull(replay: Replay): boolean {
+  return replay.inputs.length >= maxReplayInputs || replay.roster.length > maxRosterSize;
+}
+
+// the recording of the round that actions should be added to, or
+// null if nothing is being recorded
+function recording(game: GameState): Replay | null {
+  return game.replay && !replayFull(game.replay) ? game.replay : null;
+}
+
+// get the index of a player in the roster, adding them if they're not
+// there already. If there's no room for them -1 is returned and the
+// recording is full from then on
+function rosterIndex(replay: Replay, playerId: string): number {
+  if (!replay.roster.includes(playerId)) {
+    replay.roster.push(playerId);
+  }
+  const index = replay.roster.indexOf(playerId);
+
+  return index < maxRosterSize ? index : -1;
+}
+
+// the tick that an action applied now will be replayed on
+function currentTick(game: GameState, replay: Replay): number {
+  return game.tick - replay.startTick;
+}
+
+// Start recording a round. This happens when the countdown to the round
+// starts, the players that have already joined are recorded as joining
+// on the first tick
+export function startRecording(game: GameState, allPlayerIds: string[]): Replay {
+  const replay: Replay = {
+    version: replayVersion,
+    seed: game.seed,
+    settings: { ...game.settings },
+    theme: game.theme,
+    themeRoll: game.themeRoll,
+    startTime: Rune.gameTime(),
+    // the update we're in the middle of is the first one
+    // to be replayed
+    startTick: game.tick - 1,
+    roster: [...allPlayerIds],
+    joins: [],
+    leaves: [],
+    rejoins: [],
+    inputs: [],
+    length: 0
+  };
+
+  for (const jumper of game.jumpers) {
+    const index = rosterIndex(replay, jumper.id);
+    replay.joins.push([0, index, jumper.type, jumper.x, jumper.team]);
+    if (jumper.left || jumper.right || jumper.axis !== 0) {
+      replay.inputs.push(packInput(0, index, jumper));
+    }
+  }
+
+  return replay;
+}
+
+// Record a player changing their controls
+export function recordControls(game: GameState, playerId: string, controls: Controls): void {
+  const replay = recording(game);
+  const index = replay ? rosterIndex(replay, playerId) : -1;
+  if (replay && index !== -1) {
+    replay.inputs.push(packInput(currentTick(game, replay), index, controls));
+  }
+}
+
+// Record a player leaving the room
+export function recordLeave(game: GameState, playerId: string): void {
+  const replay = recording(game);
+  if (replay && replay.roster.includes(playerId)) {
+    replay.leaves.push([currentTick(game, replay), rosterIndex(replay, playerId)]);
+  }
+}
+
+// Record a player coming back to the room and taking over
+// the jumper they left behind
+export function recordRejoin(game: GameState, playerId: string): void {
+  const replay = recording(game);
+  if (replay && replay.roster.includes(playerId)) {
+    replay.rejoins.push([currentTick(game, replay), rosterIndex(replay, playerId)]);
+  }
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import { Simulation, msPerTick } from "./simulation";
+import { jumperFor, platformAt } from "./testing";
+import { Controls, GameEventType, GameMode, RoomSettings, actions, updatesPerSecond } from "./logic";
+import { disconnectGrace } from "./modes";
+import { rowHeight } from "./level";
+import { DifficultyName } from "./difficulty";
+
+// get a room to the point where everyone has joined, readied up and
+// the countdown has finished so the players are jumping
+function startRound(playerIds: string[]): Simulation {
+  const sim = new Simulation(playerIds);
+  for (const playerId of playerIds) {
+    sim.join(playerId);
+    sim.ready(playerId);
+  }
+  expect(sim.stepUntil(game => game.jumping)).toBe(true);
+
+  return sim;
+}
+
+// swap the level for a single floor under the jumpers with nothing to hurt
+// them so they bounce on it for as long as the test needs them alive
+function safeFloor(sim: Simulation): void {
+  const row = 10;
+  sim.game.platforms = { [row]: platformAt(row) };
+  sim.game.enemies = [];
+  sim.game.powerUps = [];
+  for (const jumper of sim.game.jumpers) {
+    jumper.y = row * rowHeight;
+    jumper.highest = jumper.y;
+    jumper.vy = 0;
+  }
+}
+
+describe("Simulation", () => {
+  it("starts the round once everyone that joined is ready", () => {
+    const sim = new Simulation(["a", "b"]);
+    sim.join("a");
+    sim.join("b");
+    sim.ready("a");
+    sim.step(10);
+    expect(sim.game.startAt).toBe(-1);
+
+    sim.ready("b");
+    const events = sim.step();
+    expect(events.map(e => e.type)).toContain(GameEventType.START_NEW_GAME);
+    expect(sim.stepUntil(game => game.jumping)).toBe(true);
+  });
+
+  it("moves a jumper in the direction of their controls", () => {
+    const sim = startRound(["a", "b"]);
+    const startX = jumperFor(sim, "a").x;
+
+    sim.controls("a", { left: false, right: true, axis: 1 });
+    sim.step(5);
+    expect(jumperFor(sim, "a").x).toBeGreaterThan(startX);
+
+    sim.controls("a", { left: true, right: false, axis: -1 });
+    const turnedAt = jumperFor(sim, "a").x;
+    sim.step(5);
+    expect(jumperFor(sim, "a").x).toBeLessThan(turnedAt);
+  });
+
+  it("kills a jumper that falls with nothing to land on", () => {
+    const sim = startRound(["a", "b"]);
+    sim.step(20);
+
+    // take away everything below the players so they fall
+    sim.game.platforms = {};
+    expect(sim.stepUntil(game => game.jumpers.every(j => j.dead))).toBe(true);
+
+    const deaths = sim.events.filter(e => e.event.type === GameEventType.DIE);
+    expect(deaths.map(e => e.event.playerId).sort()).toEqual(["a", "b"]);
+    expect(deaths.every(e => e.event.cause === "fall")).toBe(true);
+    expect(jumperFor(sim, "a").deathCause).toBe("fall");
+  });
+
+  it("holds the round open for a jumper waiting for their player to reconnect", () => {
+    const sim = new Simulation(["a", "b"]);
+    sim.changeSettings("a", { mode: "elimination" });
+    sim.join("a");
+    sim.join("b");
+    sim.ready("a");
+    sim.ready("b");
+    expect(sim.stepUntil(game => game.jumping)).toBe(true);
+    safeFloor(sim);
+    sim.step(20);
+
+    // b's jumper is frozen where it was while they reconnect
+    sim.removePlayer("b");
+    sim.step();
+    const { x, y } = jumperFor(sim, "b");
+    sim.advance(disconnectGrace / 2);
+    expect(sim.game.gameRestartTime).toBe(-1);
+
+    sim.addPlayer("b");
+    const jumper = jumperFor(sim, "b");
+    expect(jumper.disconnectedAt).toBe(-1);
+    expect([jumper.x, jumper.y]).toEqual([x, y]);
+    expect(jumper.dead).toBe(false);
+  });
+
+  it("ends the round once a disconnected player's grace period runs out", () => {
+    const sim = new Simulation(["a", "b"]);
+    sim.changeSettings("a", { mode: "elimination" });
+    sim.join("a");
+    sim.join("b");
+    sim.ready("a");
+    sim.ready("b");
+    expect(sim.stepUntil(game => game.jumping)).toBe(true);
+    safeFloor(sim);
+
+    sim.removePlayer("b");
+    expect(sim.stepUntil(game => game.gameRestartTime !== -1, Math.ceil(disconnectGrace / msPerTick) + 5)).toBe(true);
+    expect(sim.time).toBeGreaterThanOrEqual(disconnectGrace);
+    expect(sim.game.winner).toBe("a");
+  });
+
+  it("keeps the level under a disconnected jumper while the others climb", () => {
+    const sim = startRound(["a", "b"]);
+    safeFloor(sim);
+    sim.step(20);
+    sim.removePlayer("b");
+    sim.step();
+    const row = Math.floor(jumperFor(sim, "b").y / rowHeight);
+
+    // a climbs far above where b was left
+    const climber = jumperFor(sim, "a");
+    climber.y += rowHeight * 200;
+    climber.highest = climber.y;
+    sim.step(5);
+    expect(Object.keys(sim.game.platforms).map(Number).filter(r => r <= row).length).toBeGreaterThan(0);
+
+    // when b comes back there's still something to land on
+    sim.addPlayer("b");
+    sim.step(updatesPerSecond * 3);
+    expect(jumperFor(sim, "b").dead).toBe(false);
+  });
+
+  it("queues players arriving mid-round on the team that's short of players", () => {
+    const sim = new Simulation(["a", "b"]);
+    sim.changeSettings("a", { teams: true });
+    sim.join("a", 0, 0);
+    sim.join("b", 1, 0);
+    sim.ready("a");
+    sim.ready("b");
+    expect(sim.stepUntil(game => game.jumping)).toBe(true);
+
+    sim.addPlayer("c");
+    sim.addPlayer("d");
+    expect(sim.game.queue.map(q => [q.id, q.team])).toEqual([["c", 1], ["d", 1]]);
+  });
+
+  it("rejects actions the logic doesn't allow", () => {
+    const sim = new Simulation(["a"]);
+    sim.join("a");
+    expect(() => sim.join("a")).toThrow();
+  });
+
+  it("rejects settings and controls that aren't objects", () => {
+    // the host can change the settings while nobody has readied up
+    const lobby = new Simulation(["a"]);
+    expect(() => actions.changeSettings({ settings: null as unknown as RoomSettings }, { ...lobby.context(), playerId: "a" })).toThrow("Invalid action");
+
+    const sim = startRound(["a"]);
+    expect(() => actions.controls({ controls: null as unknown as Controls }, { ...sim.context(), playerId: "a" })).toThrow("Invalid action");
+  });
+
+  it("rejects game modes that aren't one of the modes", () => {
+    const sim = new Simulation(["a"]);
+    expect(() => sim.changeSettings("a", { mode: "toString" as GameMode })).toThrow();
+    expect(sim.game.settings.mode).toBe("timed");
+
+    // the mode lookup the round relies on every update still works
+    // so the round starts and runs under the timed rules
+    sim.join("a");
+    sim.ready("a");
+    expect(sim.stepUntil(game => game.jumping)).toBe(true);
+    sim.step(20);
+    expect(sim.game.gameRestartTime).toBe(-1);
+  });
+
+  it("rejects difficulties that aren't one of the profiles", () => {
+    const sim = new Simulation(["a"]);
+    expect(() => sim.changeSettings("a", { difficulty: "constructor" as DifficultyName })).toThrow();
+    expect(sim.game.settings.difficulty).toBe("normal");
+
+    // the level was left as it was generated for the normal profile
+    // rather than regenerated for a profile that doesn't exist
+    expect(Object.keys(sim.game.platforms).length).toBeGreaterThan(0);
+    sim.join("a");
+    sim.ready("a");
+    expect(sim.stepUntil(game => game.jumping)).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+// the headless stand in for Rune must be loaded before the logic
+import { withGameTime } from "./headless";
+import { GhostTrail } from "./ghost";
+import { Controls, GameEvent, Jumper, PersistedGameState, RoomSettings, UpdateContext, actions, events, setup, update, updatesPerSecond } from "./logic";
+
+// The number of milliseconds of game time that pass for each update
+export const msPerTick = 1000 / updatesPerSecond;
+
+// An event fired by the game logic along with the tick it was fired on
+export interface RecordedEvent {
+  // the tick the event was fired on
+  tick: number;
+  // the event that was fired
+  event: GameEvent;
+}
+
+// A headless harness for the game logic. It runs the same setup, update,
+// actions and events handlers that Rune would but steps the update loop
+// one tick at a time against a fake clock. This lets joins, controls changes
+// and deaths be scripted and the resulting game state and events checked
+// without a browser.
+export class Simulation {
+  // The game state being simulated
+  game: PersistedGameState;
+  // The players currently in the room
+  allPlayerIds: string[] = [];
+  // The current game time in ms as reported by Rune.gameTime()
+  time = 0;
+  // The number of update loops that have been run
+  tick = 0;
+  // Every event the logic has fired since the simulation started
+  events: RecordedEvent[] = [];
+
+  constructor(playerIds: string[] = []) {
+    // Rune adds the persisted player data to the state after setup
+    this.game = { ...withGameTime(this.time, () => setup()), persisted: {} };
+    for (const playerId of playerIds) {
+      this.addPlayer(playerId);
+    }
+  }
+
+  // a player arrives in the room
+  addPlayer(playerId: string): void {
+    this.allPlayerIds.push(playerId);
+    this.game.persisted[playerId] = this.game.persisted[playerId] ?? {};
+    withGameTime(this.time, () => events.playerJoined(playerId, this.context()));
+  }
+
+  // a player leaves the room
+  removePlayer(playerId: string): void {
+    this.allPlayerIds = this.allPlayerIds.filter(id => id !== playerId);
+    withGameTime(this.time, () => events.playerLeft(playerId, this.context()));
+    delete this.game.persisted[playerId];
+  }
+
+  // the player joins the game with the given character type and team
+  join(playerId: string, type = 0, team = 0): void {
+    withGameTime(this.time, () => actions.join({ type, team }, { ...this.context(), playerId }));
+  }
+
+  // the player changes the controls they're pressing
+  controls(playerId: string, controls: Controls): void {
+    withGameTime(this.time, () => actions.controls({ controls: { ...controls } }, { ...this.context(), playerId }));
+  }
+
+  // the player changes the room settings
+  changeSettings(playerId: string, settings: Partial<RoomSettings>): void {
+    withGameTime(this.time, () => actions.changeSettings({ settings }, { ...this.context(), playerId }));
+  }
+
+  // the player marks themselves as ready, or not, for the round to start
+  ready(playerId: string, ready = true): void {
+    withGameTime(this.time, () => actions.ready({ ready }, { ...this.context(), playerId }));
+  }
+
+  // the player saves the path of their best round
+  saveGhost(playerId: string, ghost: GhostTrail): void {
+    withGameTime(this.time, () => actions.saveGhost({ ghost }, { ...this.context(), playerId }));
+  }
+
+  // run the update loop the given number of times, returning the
+  // events that were fired along the way
+  step(ticks = 1): GameEvent[] {
+    const fired: GameEvent[] = [];
+
+    for (let i = 0; i < ticks; i++) {
+      this.time += msPerTick;
+      this.tick++;
+      withGameTime(this.time, () => update(this.context()));
+
+      for (const event of this.game.events) {
+        fired.push(event);
+        this.events.push({ tick: this.tick, event });
+      }
+    }
+
+    return fired;
+  }
+
+  // run the update loop until the condition is met or the maximum number
+  // of ticks has passed. Returns true if the condition was met
+  stepUntil(condition: (game: PersistedGameState) => boolean, maxTicks = updatesPerSecond * 60): boolean {
+    for (let i = 0; i < maxTicks; i++) {
+      if (condition(this.game)) {
+        return true;
+      }
+      this.step();
+    }
+
+    return condition(this.game);
+  }
+
+  // run the update loop for the given amount of game time in ms
+  advance(ms: number): GameEvent[] {
+    return this.step(Math.ceil(ms / msPerTick));
+  }
+
+  // get the jumper for a given player if they've joined
+  jumper(playerId: string): Jumper | undefined {
+    return this.game.jumpers.find(j => j.id === playerId);
+  }
+
+  // the context passed to the logic handlers, as Rune would build it
+  context(): UpdateContext {
+    return { game: this.game, allPlayerIds: [...this.allPlayerIds] };
+  }
+}
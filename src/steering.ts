@@ -0,0 +1,15 @@
+import type { Controls } from "./logic";
+
+// The number of steps the analog axis is rounded to in each direction. Keeping
+// it coarse stops tiny wobbles in tilt or sticks from being sent as new controls
+// and lets the axis be packed into a few bits of a replay
+export const axisSteps = 10;
+
+// Get the analog steering for a player's controls, clamped to -1..1 and
+// rounded to axisSteps. If there's no axis then left and right are used
+export function steeringAxis(controls: Controls): number {
+  const axis = Number.isFinite(controls.axis) ? controls.axis : (controls.right ? 1 : 0) - (controls.left ? 1 : 0);
+
+  return Math.round(Math.max(-1, Math.min(1, axis)) * axisSteps) / axisSteps;
+}
+
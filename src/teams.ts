@@ -0,0 +1,45 @@
+import type { GameState } from "./logic";
+
+// The definition of a team players can join when team mode is on
+export interface TeamDefinition {
+  // the name of the team shown to players
+  name: string;
+  // the colour used for the team's name tags and arrows
+  color: string;
+}
+
+// The teams that can be picked, players refer to them by their index
+export const teams: TeamDefinition[] = [
+  { name: "Red", color: "#FF5050" },
+  { name: "Blue", color: "#50A0FF" },
+];
+
+// The combined height climbed by all the members of a team
+export function teamHeight(game: GameState, team: number): number {
+  return game.jumpers.filter(j => j.team === team).reduce((total, jumper) => total + jumper.highest, 0);
+}
+
+// The team with the fewest players in the round or queued for the next one,
+// players that arrive once the round has started are put on it to keep
+// the teams even. The first team wins a tie
+export function smallestTeam(game: GameState): number {
+  const counts = teams.map((_, team) => game.jumpers.filter(j => j.team === team).length + game.queue.filter(q => q.team === team).length);
+
+  return counts.indexOf(Math.min(...counts));
+}
+
+// The team that has climbed the highest combined, only teams with
+// players on them count
+export function highestTeam(game: GameState): number | undefined {
+  let best: number | undefined;
+  for (let team = 0; team < teams.length; team++) {
+    if (!game.jumpers.find(j => j.team === team)) {
+      continue;
+    }
+    if (best === undefined || teamHeight(game, team) > teamHeight(game, best)) {
+      best = team;
+    }
+  }
+
+  return best;
+}
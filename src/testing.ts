@@ -0,0 +1,23 @@
+// Helpers shared by the tests that drive the game logic through the
+// headless simulation harness
+import { Simulation } from "./simulation";
+import { Jumper, Platform } from "./logic";
+import { rowHeight } from "./level";
+
+// get a player's jumper, failing the test if they haven't got one
+export function jumperFor(sim: Simulation, playerId: string): Jumper {
+  const jumper = sim.jumper(playerId);
+  if (!jumper) {
+    throw new Error("No jumper for " + playerId);
+  }
+
+  return jumper;
+}
+
+// a plain platform at the given row covering the whole screen
+export function platformAt(row: number, spring = false): Platform {
+  return {
+    x: 0, y: row * rowHeight, width: 1, spikes: false, faller: false, falling: false, vy: 0, spring,
+    slider: false, vx: 0, vanisher: false, vanishAt: -1, vanished: false
+  };
+}
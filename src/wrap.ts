@@ -0,0 +1,25 @@
+// Helpers for the horizontal position of things when the screen wrap rule is
+// on. Leaving one side of the screen brings a jumper back on the other, so
+// distances across the screen are measured whichever way round is shorter
+
+// Bring an x position that has gone past an edge back onto the screen
+export function wrapX(x: number): number {
+  return ((x % 1) + 1) % 1;
+}
+
+// The horizontal distance to move from one position to get to another. With
+// wrapping on this goes across the seam if that's the shorter way
+export function horizontalOffset(from: number, to: number, wrap: boolean): number {
+  const offset = to - from;
+
+  return wrap ? offset - Math.round(offset) : offset;
+}
+
+// Check if an x position is strictly inside a span of the screen widened
+// by a margin on each side. With wrapping on the span carries on across
+// the seam onto the other side of the screen
+export function overlapsSpan(x: number, from: number, to: number, margin: number, wrap: boolean): boolean {
+  const offsets = wrap ? [-1, 0, 1] : [0];
+
+  return offsets.some(offset => x + offset > from - margin && x + offset < to + margin);
+}